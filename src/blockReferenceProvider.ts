@@ -0,0 +1,69 @@
+import * as vscode from "vscode";
+import { BlockExtractor } from "./utils/blockExtractor";
+import { PathResolver } from "./utils/pathResolver";
+
+export class BlockReferenceProvider {
+  constructor(private context: vscode.ExtensionContext) {}
+
+  /**
+   * Labels the paragraph under the cursor (if needed) and copies a wiki link to it
+   */
+  async copyBlockReference(editor: vscode.TextEditor): Promise<void> {
+    const document = editor.document;
+    const lines = document.getText().split("\n");
+    const paragraph = BlockExtractor.findParagraph(
+      lines,
+      editor.selection.active.line
+    );
+
+    if (!paragraph) {
+      vscode.window.showWarningMessage(
+        "Place the cursor inside a paragraph to copy a block reference"
+      );
+      return;
+    }
+
+    const lastLine = document.lineAt(paragraph.endLine);
+    let label = BlockExtractor.getTrailingLabel(lastLine.text);
+
+    if (!label) {
+      const existingLabels = new Set(
+        Array.from(document.getText().matchAll(/<([^<>\s]+)>/g), (m) => m[1])
+      );
+      label = BlockExtractor.generateBlockLabel(existingLabels);
+
+      const trimmedEnd = lastLine.text.trimEnd().length;
+      const success = await editor.edit((editBuilder) => {
+        editBuilder.replace(
+          new vscode.Range(
+            paragraph.endLine,
+            trimmedEnd,
+            paragraph.endLine,
+            lastLine.text.length
+          ),
+          ` <${label}>`
+        );
+      });
+
+      if (!success) {
+        vscode.window.showErrorMessage("Failed to add block label");
+        return;
+      }
+    }
+
+    const linkPath = PathResolver.getRootRelativeLinkPath(document.uri);
+    const reference = `[[${linkPath}:${label}]]`;
+
+    await vscode.env.clipboard.writeText(reference);
+    vscode.window.showInformationMessage(`Copied block reference ${reference}`);
+  }
+
+  register() {
+    this.context.subscriptions.push(
+      vscode.commands.registerTextEditorCommand(
+        "typst-oxide.copyBlockReference",
+        (editor) => this.copyBlockReference(editor)
+      )
+    );
+  }
+}
@@ -1,7 +1,11 @@
 import * as path from "path";
 import * as vscode from "vscode";
+import { LabelSearcher } from "./utils/labelSearcher";
 import { PathResolver } from "./utils/pathResolver";
 import { DatabaseService } from "./indexing/dbService";
+import { InterwikiResolver } from "./utils/interwikiResolver";
+import { NoteNameIndex } from "./services/noteNameIndex";
+import { WikiLinkTokenizer } from "./utils/wikiLinkTokenizer";
 
 export class WikiLinkCompletionProvider
   implements vscode.CompletionItemProvider
@@ -12,38 +16,61 @@ export class WikiLinkCompletionProvider
     token: vscode.CancellationToken,
     context: vscode.CompletionContext
   ): Promise<vscode.CompletionItem[]> {
-    const linePrefix = document
-      .lineAt(position)
-      .text.substring(0, position.character);
-
     // Check if we're in a wiki link context
-    const wikiLinkMatch = linePrefix.match(/\[\[([^:]*?)(?::([^|\]]*?))?(?:\|[^\]]*)?$/);
-    if (!wikiLinkMatch) {
+    const openLink = WikiLinkTokenizer.findOpenLink(document, position);
+    if (!openLink) {
       return [];
     }
 
-    const filePath = wikiLinkMatch[1];
-    const partialLabel = wikiLinkMatch[2] || "";
+    // After an interwiki prefix the rest is free-form, e.g. [[gh:owner/repo]]
+    if (
+      openLink.slot === "label" &&
+      InterwikiResolver.isInterwikiPrefix(document.uri, openLink.filePath)
+    ) {
+      return [];
+    }
 
-    // If we have a colon in the line, we're looking for labels
-    if (linePrefix.includes(":")) {
+    // After a colon we're looking for labels
+    if (openLink.slot === "label") {
       return this.provideLabelCompletions(
         document,
-        filePath + ":" + partialLabel,
+        openLink.filePath,
+        openLink.label ?? "",
         token
       );
     }
 
+    // After a hash we're looking for heading anchors
+    if (openLink.slot === "heading") {
+      return this.provideHeadingCompletions(
+        document,
+        position,
+        openLink.filePath,
+        openLink.headingPath ?? [""],
+        token
+      );
+    }
+
+    if (openLink.slot === "alias") {
+      return [];
+    }
+
     // Otherwise, provide file path completions
-    return this.provideFilePathCompletions(document, filePath, token);
+    return this.provideFilePathCompletions(
+      document,
+      openLink.filePath,
+      new vscode.Range(openLink.start.translate(0, 2), position),
+      token
+    );
   }
 
-/**
+  /**
    * Provides completion items for file paths including aliases
    */
   private async provideFilePathCompletions(
     document: vscode.TextDocument,
     partialPath: string,
+    replaceRange: vscode.Range,
     token: vscode.CancellationToken
   ): Promise<vscode.CompletionItem[]> {
     const completions: vscode.CompletionItem[] = [];
@@ -56,42 +83,88 @@ export class WikiLinkCompletionProvider
       let searchDir: string;
       let searchPattern: string;
 
-      if (partialPath.includes("/") || partialPath.includes("\\")) {
-        const pathParts = partialPath.split(/[/\\]/);
+      // Root-relative paths ("/notes/x") are searched from the repository
+      // root, cross-folder paths ("folder-name//x") from that workspace folder
+      const crossFolderPath = PathResolver.parseCrossFolderPath(partialPath);
+      const crossFolder = crossFolderPath
+        ? PathResolver.getWorkspaceFolderByName(crossFolderPath.folderName)
+        : undefined;
+      const rootRelative = !crossFolder && PathResolver.isRootRelative(partialPath);
+
+      let baseDir = currentDir;
+      let typedPath = partialPath;
+      if (crossFolder && crossFolderPath) {
+        baseDir = crossFolder.uri.fsPath;
+        typedPath = crossFolderPath.path;
+      } else if (rootRelative) {
+        baseDir = PathResolver.getRepositoryRoot(document.uri);
+        typedPath = partialPath.slice(1);
+      }
+
+      // Completed paths keep the form being typed
+      const toLinkPath = (filePath: string): string => {
+        const uri = vscode.Uri.file(filePath);
+        if (crossFolder) {
+          return PathResolver.getCrossFolderLinkPath(uri) ?? filePath;
+        }
+        return rootRelative
+          ? PathResolver.getRootRelativeLinkPath(uri)
+          : this.toLinkPath(document.uri, currentDir, filePath);
+      };
+
+      if (typedPath.includes("/") || typedPath.includes("\\")) {
+        const pathParts = typedPath.split(/[/\\]/);
         searchPattern = pathParts.pop() || "";
         const dirPath = pathParts.join(path.sep);
-        searchDir = path.resolve(currentDir, dirPath);
+        searchDir = path.resolve(baseDir, dirPath);
       } else {
-        searchDir = currentDir;
-        searchPattern = partialPath;
+        searchDir = baseDir;
+        searchPattern = typedPath;
       }
 
       const fileMatches = new Set<string>();
-
-      // Add files from filesystem search
-      const files = await this.findTypstFiles(searchDir, searchPattern);
+      const searchByName =
+        PathResolver.getResolutionMode(document.uri) === "shortest" &&
+        !crossFolder &&
+        !rootRelative &&
+        searchDir === currentDir;
+
+      // Add files from filesystem search, or from every indexed note when
+      // bare names resolve by note name
+      const files = searchByName
+        ? NoteNameIndex.getInstance().searchNotes(searchPattern)
+        : await this.findLinkableFiles(searchDir, searchPattern, document.uri);
       for (const file of files) {
         if (token.isCancellationRequested) {
           break;
         }
 
         const relativePath = path.relative(currentDir, file);
-        const pathWithoutExt = relativePath.replace(/\.typ$/, "");
+        const pathWithoutExt = toLinkPath(file);
 
         const completion = new vscode.CompletionItem(
           pathWithoutExt,
           vscode.CompletionItemKind.File
         );
 
-        completion.detail = `Typst file: ${relativePath}`;
+        completion.detail = PathResolver.isTypstFile(vscode.Uri.file(file))
+          ? `Typst file: ${relativePath}`
+          : `Asset: ${relativePath}`;
         completion.documentation = new vscode.MarkdownString(
           `Link to \`${pathWithoutExt}\``
         );
         completion.insertText = pathWithoutExt;
+        completion.range = replaceRange;
+        if (searchByName) {
+          // Match what was typed against the note name, not its parent folders
+          completion.filterText = path.basename(file, ".typ");
+        }
         completion.sortText = `0_${pathWithoutExt}`; // Prioritize direct filename matches
 
         completions.push(completion);
-        fileMatches.add(pathWithoutExt.toLowerCase());
+        fileMatches.add(
+          PathResolver.normalizeForComparison(pathWithoutExt, document.uri)
+        );
       }
 
       // 2. Get alias matches from database
@@ -102,11 +175,14 @@ export class WikiLinkCompletionProvider
           break;
         }
 
-        const relativePath = path.relative(currentDir, file.filePath);
-        const pathWithoutExt = relativePath.replace(/\.typ$/, "");
+        const pathWithoutExt = toLinkPath(file.filePath);
 
         // Skip if already added as direct file match
-        if (fileMatches.has(pathWithoutExt.toLowerCase())) {
+        if (
+          fileMatches.has(
+            PathResolver.normalizeForComparison(pathWithoutExt, document.uri)
+          )
+        ) {
           continue;
         }
 
@@ -124,10 +200,60 @@ export class WikiLinkCompletionProvider
           `Link to \`${pathWithoutExt}\` via alias${matchingAliases.length > 1 ? "es" : ""}: \`${matchingAliases.join(", ")}\``
         );
         completion.insertText = pathWithoutExt;
+        completion.range = replaceRange;
+        completion.filterText = partialPath; // Already filtered by alias
         completion.sortText = `1_${pathWithoutExt}`; // Sort aliases after direct matches
 
         completions.push(completion);
       }
+
+      // 3. Offer the configured interwiki prefixes
+      if (!partialPath.includes("/") && !partialPath.includes("\\")) {
+        const prefixes = InterwikiResolver.getPrefixes(document.uri);
+        for (const [prefix, template] of Object.entries(prefixes)) {
+          if (!prefix.toLowerCase().startsWith(partialPath.toLowerCase())) {
+            continue;
+          }
+
+          const completion = new vscode.CompletionItem(
+            `${prefix}:`,
+            vscode.CompletionItemKind.Module
+          );
+          completion.detail = `Interwiki: ${template}`;
+          completion.range = replaceRange;
+          completion.sortText = `2_${prefix}`;
+
+          completions.push(completion);
+        }
+      }
+
+      // 4. Offer the other workspace folders as cross-folder link prefixes
+      if (!partialPath.includes("/") && !partialPath.includes("\\")) {
+        const currentFolder = vscode.workspace.getWorkspaceFolder(document.uri);
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+          if (
+            folder.uri.toString() === currentFolder?.uri.toString() ||
+            !folder.name.toLowerCase().includes(partialPath.toLowerCase())
+          ) {
+            continue;
+          }
+
+          const completion = new vscode.CompletionItem(
+            `${folder.name}//`,
+            vscode.CompletionItemKind.Folder
+          );
+          completion.detail = `Workspace folder: ${folder.name}`;
+          completion.range = replaceRange;
+          completion.sortText = `3_${folder.name}`;
+          // Continue with the files of that folder
+          completion.command = {
+            command: "editor.action.triggerSuggest",
+            title: "Re-trigger completions",
+          };
+
+          completions.push(completion);
+        }
+      }
     } catch (error) {
       console.error("Error providing file path completions:", error);
     }
@@ -140,22 +266,15 @@ export class WikiLinkCompletionProvider
    */
   private async provideLabelCompletions(
     document: vscode.TextDocument,
-    partialPathWithLabel: string,
+    filePath: string,
+    partialLabel: string,
     token: vscode.CancellationToken
   ): Promise<vscode.CompletionItem[]> {
     const completions: vscode.CompletionItem[] = [];
 
     try {
-      const colonIndex = partialPathWithLabel.indexOf(":");
-      const filePath = partialPathWithLabel.substring(0, colonIndex);
-      const partialLabel = partialPathWithLabel.substring(colonIndex + 1);
-
       // Resolve the target file
-      const filePathWithExt = PathResolver.ensureTypstExtension(filePath);
-      const targetUri = PathResolver.resolveFilePath(
-        document.uri,
-        filePathWithExt
-      );
+      const targetUri = PathResolver.resolveLinkTarget(document.uri, filePath);
 
       // Check if target file exists
       const fileExists = await PathResolver.fileExists(targetUri);
@@ -167,6 +286,16 @@ export class WikiLinkCompletionProvider
       const targetDocument = await vscode.workspace.openTextDocument(targetUri);
       const labels = await this.extractLabelsFromDocument(targetDocument);
 
+      // Indexed labels carry the text of the paragraph they close
+      const indexedLabels = await DatabaseService.getInstance().getLabelsInFile(
+        targetUri.fsPath
+      );
+      const blockTexts = new Map(
+        indexedLabels
+          .filter((label) => label.text)
+          .map((label) => [label.name, label.text!])
+      );
+
       for (const label of labels) {
         if (token.isCancellationRequested) {
           break;
@@ -185,6 +314,16 @@ export class WikiLinkCompletionProvider
           completion.documentation = new vscode.MarkdownString(
             `Navigate to ${label.type}: \`${label.text}\``
           );
+
+          const blockText = blockTexts.get(label.text);
+          if (blockText) {
+            completion.detail = `${label.text.startsWith("blk-") ? "block" : label.type} in ${path.basename(
+              targetUri.fsPath
+            )}`;
+            completion.documentation.appendMarkdown("\n\n");
+            completion.documentation.appendText(blockText);
+          }
+
           completion.insertText = label.text;
           completion.sortText = label.text;
 
@@ -199,11 +338,117 @@ export class WikiLinkCompletionProvider
   }
 
   /**
-   * Finds all .typ files in a directory matching a pattern
+   * Provides completion items for heading anchors, using the indexed outline
+   * of the target file. Only headings nested below the already typed
+   * segments are offered.
+   */
+  private async provideHeadingCompletions(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    filePath: string,
+    headingPath: string[],
+    token: vscode.CancellationToken
+  ): Promise<vscode.CompletionItem[]> {
+    const completions: vscode.CompletionItem[] = [];
+
+    try {
+      const targetUri = PathResolver.resolveLinkTarget(document.uri, filePath);
+
+      // The current document may have unsaved headings, so read it directly
+      const headings =
+        PathResolver.pathsEqual(targetUri.fsPath, document.uri.fsPath)
+          ? LabelSearcher.extractHeadings(document)
+          : await DatabaseService.getInstance().getHeadingsInFile(
+              targetUri.fsPath
+            );
+
+      const parentPath = headingPath.slice(0, -1);
+      const partialHeading = headingPath[headingPath.length - 1].toLowerCase();
+      const candidates = LabelSearcher.getHeadingCandidates(
+        headings,
+        parentPath
+      );
+
+      // Replace the whole segment being typed, which may contain spaces
+      const linePrefix = document
+        .lineAt(position)
+        .text.substring(0, position.character);
+      const replaceRange = new vscode.Range(
+        position.line,
+        linePrefix.lastIndexOf("#") + 1,
+        position.line,
+        position.character
+      );
+
+      const seen = new Set<string>();
+      for (const heading of candidates) {
+        if (token.isCancellationRequested) {
+          break;
+        }
+
+        const text = LabelSearcher.normalizeHeadingText(heading.text);
+        if (seen.has(text) || !text.toLowerCase().includes(partialHeading)) {
+          continue;
+        }
+        seen.add(text);
+
+        const completion = new vscode.CompletionItem(
+          text,
+          vscode.CompletionItemKind.Reference
+        );
+
+        completion.detail = `${"=".repeat(heading.level)} heading in ${path.basename(
+          targetUri.fsPath
+        )}`;
+        completion.documentation = new vscode.MarkdownString(
+          `Navigate to heading: \`${[...parentPath, text].join(" › ")}\``
+        );
+        completion.insertText = WikiLinkTokenizer.formatHeadingPath([
+          text,
+        ]).substring(1);
+        completion.filterText = text;
+        completion.range = replaceRange;
+        completion.sortText = `${heading.level}_${text}`;
+
+        completions.push(completion);
+      }
+    } catch (error) {
+      console.error("Error providing heading completions:", error);
+    }
+
+    return completions;
+  }
+
+  /**
+   * Gets the path to insert for a link to a file: relative to the current
+   * directory, or the shortest unambiguous note path in "shortest" mode
+   */
+  private toLinkPath(
+    documentUri: vscode.Uri,
+    currentDir: string,
+    filePath: string
+  ): string {
+    if (PathResolver.getResolutionMode(documentUri) === "shortest") {
+      return NoteNameIndex.getInstance().getShortestLinkPath(
+        filePath,
+        PathResolver.isCaseSensitive(documentUri)
+      );
+    }
+
+    return path
+      .relative(currentDir, filePath)
+      .replace(/\.typ$/, "")
+      .replace(/\\/g, "/");
+  }
+
+  /**
+   * Recursively finds files with a configured `file-extensions` extension
+   * whose name contains the pattern
    */
-  private async findTypstFiles(
+  private async findLinkableFiles(
     searchDir: string,
-    pattern: string
+    pattern: string,
+    documentUri: vscode.Uri
   ): Promise<string[]> {
     const files: string[] = [];
 
@@ -212,16 +457,20 @@ export class WikiLinkCompletionProvider
       const entries = await vscode.workspace.fs.readDirectory(dirUri);
 
       for (const [name, type] of entries) {
-        if (type === vscode.FileType.File && name.endsWith(".typ")) {
+        if (
+          type === vscode.FileType.File &&
+          PathResolver.isLinkableExtension(path.extname(name), documentUri)
+        ) {
           const nameWithoutExt = name.replace(/\.typ$/, "");
           if (nameWithoutExt.toLowerCase().includes(pattern.toLowerCase())) {
             files.push(path.join(searchDir, name));
           }
-        } else if (type === vscode.FileType.Directory) {
-          // Recursively search subdirectories
-          const subDirFiles = await this.findTypstFiles(
+        } else if (type === vscode.FileType.Directory && !name.startsWith(".")) {
+          // Recursively search subdirectories, skipping hidden ones like .git
+          const subDirFiles = await this.findLinkableFiles(
             path.join(searchDir, name),
-            pattern
+            pattern,
+            documentUri
           );
           files.push(...subDirFiles);
         }
@@ -1,7 +1,11 @@
+import * as path from "path";
 import * as vscode from "vscode";
+import { AliasIndex } from "./services/aliasIndex";
+import { FileWatcherService } from "./services/fileWatcherService";
+import { InterwikiResolver } from "./utils/interwikiResolver";
 import { LabelSearcher } from "./utils/labelSearcher";
 import { PathResolver } from "./utils/pathResolver";
-import { WikiLinkProvider } from "./wikiLinkProvider";
+import { WikiLinkMatch, WikiLinkTokenizer } from "./utils/wikiLinkTokenizer";
 
 export class WikiLinkDiagnosticProvider {
   private diagnosticCollection: vscode.DiagnosticCollection;
@@ -22,7 +26,7 @@ export class WikiLinkDiagnosticProvider {
     const diagnostics: vscode.Diagnostic[] = [];
 
     try {
-      const wikiLinks = WikiLinkProvider.parseWikiLinks(document);
+      const wikiLinks = WikiLinkTokenizer.tokenize(document);
 
       for (const link of wikiLinks) {
         const diagnostic = await this.validateWikiLink(document, link);
@@ -30,6 +34,8 @@ export class WikiLinkDiagnosticProvider {
           diagnostics.push(diagnostic);
         }
       }
+
+      diagnostics.push(...this.validateAliases(document));
     } catch (error) {
       console.error("Error validating wiki links:", error);
     }
@@ -42,41 +48,111 @@ export class WikiLinkDiagnosticProvider {
    */
   private async validateWikiLink(
     document: vscode.TextDocument,
-    link: { filePath: string; label: string; range: vscode.Range }
+    link: WikiLinkMatch
   ): Promise<vscode.Diagnostic | null> {
+    // Interwiki links point outside the workspace
+    if (InterwikiResolver.isInterwikiPrefix(document.uri, link.filePath)) {
+      return null;
+    }
+
+    // Cross-folder links must name an open workspace folder
+    const crossFolderPath = PathResolver.parseCrossFolderPath(link.filePath);
+    if (
+      crossFolderPath &&
+      !PathResolver.getWorkspaceFolderByName(crossFolderPath.folderName)
+    ) {
+      return new vscode.Diagnostic(
+        link.filePathRange,
+        `Unknown workspace folder "${crossFolderPath.folderName}"`,
+        vscode.DiagnosticSeverity.Warning
+      );
+    }
+
+    // Bare names resolved by note name must pick out a single note
+    const candidates = PathResolver.getLinkCandidates(
+      document.uri,
+      link.filePath
+    );
+    if (candidates.length > 1) {
+      return this.createConflictDiagnostic(
+        link.filePathRange,
+        `Ambiguous link "${link.filePath}" matches ${candidates.length} notes`,
+        candidates
+      );
+    }
+
+    // Aliases claimed by several notes can't pick out a single note
+    const aliasTargets = PathResolver.getAliasTargets(
+      document.uri,
+      link.filePath,
+      candidates
+    );
+    if (aliasTargets.length > 1) {
+      return this.createConflictDiagnostic(
+        link.filePathRange,
+        `Alias "${link.filePath}" is claimed by ${aliasTargets.length} notes`,
+        aliasTargets
+      );
+    }
+
     // Resolve the target file path
-    const filePathWithExt = PathResolver.ensureTypstExtension(link.filePath);
-    const targetUri = PathResolver.resolveFilePath(
+    const targetUri = PathResolver.resolveLinkTarget(
       document.uri,
-      filePathWithExt
+      link.filePath
     );
 
     // Check if target file exists
     const fileExists = await PathResolver.fileExists(targetUri);
+    const isTypstFile = PathResolver.isTypstFile(targetUri);
     if (!fileExists) {
       return new vscode.Diagnostic(
         link.range,
-        `File not found: ${PathResolver.getWorkspaceRelativePath(targetUri)} - will be created on navigation`,
+        isTypstFile
+          ? `File not found: ${PathResolver.getWorkspaceRelativePath(targetUri)} - will be created on navigation`
+          : `File not found: ${PathResolver.getWorkspaceRelativePath(targetUri)}`,
         vscode.DiagnosticSeverity.Warning
       );
     }
 
-    // Check if label exists in target file
+    // Assets have no labels or headings to check
+    if (!isTypstFile || (!link.label && !link.headingPath)) {
+      return null;
+    }
+
+    // Check if label or heading anchor exists in target file
     try {
       const targetDocument = await vscode.workspace.openTextDocument(targetUri);
-      const labelResult = await LabelSearcher.findLabel(
-        targetDocument,
-        link.label
-      );
 
-      if (!labelResult.found) {
-        return new vscode.Diagnostic(
-          link.range,
-          `Label "${
-            link.label
-          }" not found in ${PathResolver.getWorkspaceRelativePath(targetUri)}`,
-          vscode.DiagnosticSeverity.Warning
+      if (link.headingPath) {
+        const headingResult = await LabelSearcher.findHeadingPath(
+          targetDocument,
+          link.headingPath
+        );
+
+        if (!headingResult.found) {
+          return new vscode.Diagnostic(
+            link.headingRange ?? link.range,
+            `Heading "${link.headingPath.join(
+              " › "
+            )}" not found in ${PathResolver.getWorkspaceRelativePath(targetUri)}`,
+            vscode.DiagnosticSeverity.Warning
+          );
+        }
+      } else if (link.label) {
+        const labelResult = await LabelSearcher.findLabel(
+          targetDocument,
+          link.label
         );
+
+        if (!labelResult.found) {
+          return new vscode.Diagnostic(
+            link.range,
+            `Label "${
+              link.label
+            }" not found in ${PathResolver.getWorkspaceRelativePath(targetUri)}`,
+            vscode.DiagnosticSeverity.Warning
+          );
+        }
       }
     } catch (error) {
       return new vscode.Diagnostic(
@@ -91,6 +167,73 @@ export class WikiLinkDiagnosticProvider {
     return null; // No issues found
   }
 
+  /**
+   * Reports the aliases this document declares that other notes claim too
+   */
+  private validateAliases(document: vscode.TextDocument): vscode.Diagnostic[] {
+    const aliasIndex = AliasIndex.getInstance();
+    const diagnostics: vscode.Diagnostic[] = [];
+    const text = document.getText();
+
+    for (const alias of aliasIndex.getAliases(document.uri.fsPath)) {
+      const claimants = PathResolver.filterToFolderOf(
+        document.uri,
+        aliasIndex.getFiles(alias).map((filePath) => vscode.Uri.file(filePath))
+      );
+      if (claimants.length < 2) {
+        continue;
+      }
+
+      // Point at the alias in the metadata, if it can be found
+      const index = text.indexOf(`"${alias}"`);
+      const range =
+        index === -1
+          ? document.lineAt(0).range
+          : new vscode.Range(
+              document.positionAt(index),
+              document.positionAt(index + alias.length + 2)
+            );
+
+      diagnostics.push(
+        this.createConflictDiagnostic(
+          range,
+          `Alias "${alias}" is also claimed by other notes`,
+          claimants.filter(
+            (uri) => !PathResolver.pathsEqual(uri.fsPath, document.uri.fsPath)
+          )
+        )
+      );
+    }
+
+    return diagnostics;
+  }
+
+  /**
+   * Creates a warning listing the notes a link or alias could refer to
+   */
+  private createConflictDiagnostic(
+    range: vscode.Range,
+    message: string,
+    candidates: vscode.Uri[]
+  ): vscode.Diagnostic {
+    const candidatePaths = candidates.map((uri) =>
+      PathResolver.getWorkspaceRelativePath(uri)
+    );
+    const diagnostic = new vscode.Diagnostic(
+      range,
+      `${message}: ${candidatePaths.join(", ")}`,
+      vscode.DiagnosticSeverity.Warning
+    );
+    diagnostic.relatedInformation = candidates.map(
+      (uri, index) =>
+        new vscode.DiagnosticRelatedInformation(
+          new vscode.Location(uri, new vscode.Position(0, 0)),
+          `Candidate: ${candidatePaths[index]}`
+        )
+    );
+    return diagnostic;
+  }
+
   /**
    * Clears diagnostics for a document
    */
@@ -106,9 +249,14 @@ export class WikiLinkDiagnosticProvider {
   }
 }
 
+const DIAGNOSTICS_ID = "wiki-link-diagnostics";
+// Coalesces the validations of a burst of files created or deleted on disk
+const VALIDATE_ALL_DELAY = 500;
+
 export class WikiLinkDiagnosticManager {
   private provider: WikiLinkDiagnosticProvider;
   private disposables: vscode.Disposable[] = [];
+  private validateAllTimer: NodeJS.Timeout | undefined;
 
   constructor() {
     this.provider = new WikiLinkDiagnosticProvider();
@@ -161,6 +309,31 @@ export class WikiLinkDiagnosticManager {
         this.validateAllOpenDocuments();
       })
     );
+
+    // Notes and assets also come and go outside the editor, e.g. on checkout
+    const fileWatcherService = FileWatcherService.getInstance();
+    const onFileEvent = (uri: vscode.Uri) => {
+      if (
+        PathResolver.isTypstFile(uri) ||
+        PathResolver.isLinkableExtension(path.extname(uri.fsPath), uri)
+      ) {
+        clearTimeout(this.validateAllTimer);
+        this.validateAllTimer = setTimeout(
+          () => this.validateAllOpenDocuments(),
+          VALIDATE_ALL_DELAY
+        );
+      }
+    };
+    fileWatcherService.registerFileCallback(DIAGNOSTICS_ID, {
+      onDidCreate: onFileEvent,
+      onDidDelete: onFileEvent,
+    });
+    this.disposables.push({
+      dispose: () => {
+        fileWatcherService.unregisterFileCallback(DIAGNOSTICS_ID);
+        clearTimeout(this.validateAllTimer);
+      },
+    });
   }
 
   private async validateAllOpenDocuments(): Promise<void> {
@@ -0,0 +1,126 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { EmbedResolver } from "./utils/embedResolver";
+import { PathResolver } from "./utils/pathResolver";
+import { WikiLinkTokenizer } from "./utils/wikiLinkTokenizer";
+
+export class EmbedExporter {
+  constructor(private context: vscode.ExtensionContext) {}
+
+  /**
+   * Writes a copy of the document next to it in which embeds are replaced by
+   * real Typst: whole-file embeds become `#include`, sections are inlined.
+   * The copy (`<name>.export.typ`) isn't indexed as a note.
+   */
+  async exportEmbeds(editor: vscode.TextEditor): Promise<void> {
+    const document = editor.document;
+    const exportUri = PathResolver.getEmbedExportUri(document.uri);
+
+    try {
+      const content = await this.expandEmbeds(
+        document,
+        this.getFullRange(document),
+        path.dirname(exportUri.fsPath),
+        new Set([document.uri.toString()])
+      );
+
+      await vscode.workspace.fs.writeFile(
+        exportUri,
+        Buffer.from(content, "utf8")
+      );
+      await vscode.window.showTextDocument(exportUri);
+    } catch (error) {
+      console.error("Failed to export embeds:", error);
+      vscode.window.showErrorMessage(`Failed to export embeds: ${error}`);
+    }
+  }
+
+  /**
+   * Returns the text of a range with every embed inside it expanded.
+   * `visiting` holds the sections being expanded, to break embed cycles.
+   */
+  private async expandEmbeds(
+    document: vscode.TextDocument,
+    range: vscode.Range,
+    exportDir: string,
+    visiting: Set<string>
+  ): Promise<string> {
+    const embeds = WikiLinkTokenizer.tokenize(document).filter(
+      (link) => link.embed && range.contains(link.range)
+    );
+
+    let result = "";
+    let offset = document.offsetAt(range.start);
+
+    for (const link of embeds) {
+      result += document.getText(
+        new vscode.Range(document.positionAt(offset), link.range.start)
+      );
+      offset = document.offsetAt(link.range.end);
+
+      const embed = await EmbedResolver.resolveEmbed(document.uri, link);
+      if (!embed) {
+        console.warn(`Unresolved embed ${link.fullMatch} in ${document.uri}`);
+        result += link.fullMatch;
+        continue;
+      }
+
+      const isWholeFile = !link.label && !link.headingPath?.length;
+      const key = isWholeFile
+        ? embed.document.uri.toString()
+        : `${embed.document.uri.toString()}#${embed.range.start.line}`;
+
+      if (visiting.has(key)) {
+        result += `/* cyclic embed: ${link.fullMatch} */`;
+      } else if (isWholeFile && this.hasEmbeds(embed.document)) {
+        // `#include` would compile the file's own embeds as text
+        visiting.add(key);
+        result += await this.expandEmbeds(
+          embed.document,
+          this.getFullRange(embed.document),
+          exportDir,
+          visiting
+        );
+        visiting.delete(key);
+      } else if (isWholeFile) {
+        const includePath = path
+          .relative(exportDir, embed.document.uri.fsPath)
+          .replace(/\\/g, "/");
+        result += `#include "${includePath}"`;
+      } else {
+        visiting.add(key);
+        result += await this.expandEmbeds(
+          embed.document,
+          embed.range,
+          exportDir,
+          visiting
+        );
+        visiting.delete(key);
+      }
+    }
+
+    return result + document.getText(
+      new vscode.Range(document.positionAt(offset), range.end)
+    );
+  }
+
+  private hasEmbeds(document: vscode.TextDocument): boolean {
+    return WikiLinkTokenizer.tokenize(document).some((link) => link.embed);
+  }
+
+  private getFullRange(document: vscode.TextDocument): vscode.Range {
+    return new vscode.Range(
+      new vscode.Position(0, 0),
+      document.lineAt(document.lineCount - 1).range.end
+    );
+  }
+
+  register() {
+    this.context.subscriptions.push(
+      vscode.commands.registerTextEditorCommand(
+        "typst-oxide.exportEmbeds",
+        (editor) => this.exportEmbeds(editor)
+      )
+    );
+  }
+}
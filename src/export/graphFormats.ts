@@ -0,0 +1,179 @@
+import { GraphEdge, GraphNode, LinkGraph } from "./linkGraph";
+
+// Each format is also the extension of its files
+export type GraphFormat = "json" | "csv" | "graphml" | "dot";
+
+/**
+ * Serializes a link graph for tools outside the editor
+ */
+export class GraphFormats {
+  static format(graph: LinkGraph, format: GraphFormat): string {
+    switch (format) {
+      case "json":
+        return this.toJson(graph);
+      case "csv":
+        return this.toCsv(graph);
+      case "graphml":
+        return this.toGraphML(graph);
+      case "dot":
+        return this.toDot(graph);
+    }
+  }
+
+  /**
+   * Nodes with their metadata, aliases and tags, and the edges between them
+   */
+  static toJson(graph: LinkGraph): string {
+    return JSON.stringify(graph, null, 2) + "\n";
+  }
+
+  /**
+   * An edge list with a header row, quoted as in RFC 4180
+   */
+  static toCsv(graph: LinkGraph): string {
+    const rows = [
+      ["source", "target", "label", "alias", "embed", "broken"],
+      ...graph.edges.map((edge) => [
+        edge.source,
+        edge.target,
+        edge.label ?? "",
+        edge.alias ?? "",
+        String(edge.embed),
+        String(edge.broken),
+      ]),
+    ];
+    return (
+      rows
+        .map((row) =>
+          row
+            .map((cell) =>
+              /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell
+            )
+            .join(",")
+        )
+        .join("\r\n") + "\r\n"
+    );
+  }
+
+  /**
+   * A directed GraphML graph; list and object values are stored as JSON
+   */
+  static toGraphML(graph: LinkGraph): string {
+    const nodeKeys: Array<[string, (node: GraphNode) => unknown]> = [
+      ["kind", (node) => node.kind],
+      ["title", (node) => node.title],
+      ["aliases", (node) => node.aliases],
+      ["tags", (node) => node.tags],
+      ["metadata", (node) => node.metadata],
+    ];
+    const edgeKeys: Array<
+      [string, "string" | "boolean", (edge: GraphEdge) => unknown]
+    > = [
+      ["label", "string", (edge) => edge.label],
+      ["alias", "string", (edge) => edge.alias],
+      ["embed", "boolean", (edge) => edge.embed],
+      ["broken", "boolean", (edge) => edge.broken],
+    ];
+    const data = (key: string, value: unknown) =>
+      value === undefined
+        ? []
+        : [
+            `      <data key="${key}">${this.escapeXml(
+              typeof value === "string" ? value : JSON.stringify(value)
+            )}</data>`,
+          ];
+
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+      ...nodeKeys.map(
+        ([key]) =>
+          `  <key id="n_${key}" for="node" attr.name="${key}" attr.type="string"/>`
+      ),
+      ...edgeKeys.map(
+        ([key, type]) =>
+          `  <key id="e_${key}" for="edge" attr.name="${key}" attr.type="${type}"/>`
+      ),
+      '  <graph id="notes" edgedefault="directed">',
+    ];
+
+    for (const node of graph.nodes) {
+      lines.push(
+        `    <node id="${this.escapeXml(node.id)}">`,
+        ...nodeKeys.flatMap(([key, get]) => data(`n_${key}`, get(node))),
+        "    </node>"
+      );
+    }
+    for (const edge of graph.edges) {
+      lines.push(
+        `    <edge source="${this.escapeXml(edge.source)}" target="${this.escapeXml(
+          edge.target
+        )}">`,
+        ...edgeKeys.flatMap(([key, , get]) => data(`e_${key}`, get(edge))),
+        "    </edge>"
+      );
+    }
+
+    lines.push("  </graph>", "</graphml>");
+    return lines.join("\n") + "\n";
+  }
+
+  /**
+   * A Graphviz digraph labelled with note titles; broken links are dashed
+   * red edges to dashed boxes
+   */
+  static toDot(graph: LinkGraph): string {
+    const lines = ["digraph notes {", "  node [shape=ellipse];"];
+
+    for (const node of graph.nodes) {
+      const attributes = [`label=${this.quoteDot(node.title)}`];
+      if (node.tags.length > 0) {
+        const tags = node.tags.map((tag) => `#${tag}`).join(" ");
+        attributes.push(`tooltip=${this.quoteDot(tags)}`);
+      }
+      if (node.kind !== "note") {
+        attributes.push("shape=box");
+      }
+      if (node.kind === "missing") {
+        attributes.push("style=dashed", "color=red");
+      }
+      lines.push(`  ${this.quoteDot(node.id)} [${attributes.join(", ")}];`);
+    }
+
+    for (const edge of graph.edges) {
+      const attributes: string[] = [];
+      if (edge.label || edge.alias) {
+        attributes.push(`label=${this.quoteDot(edge.label ?? edge.alias!)}`);
+      }
+      if (edge.broken) {
+        attributes.push("style=dashed", "color=red");
+      } else if (edge.embed) {
+        attributes.push("style=bold");
+      }
+      lines.push(
+        `  ${this.quoteDot(edge.source)} -> ${this.quoteDot(edge.target)}${
+          attributes.length > 0 ? ` [${attributes.join(", ")}]` : ""
+        };`
+      );
+    }
+
+    lines.push("}");
+    return lines.join("\n") + "\n";
+  }
+
+  private static escapeXml(text: string): string {
+    return text
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;");
+  }
+
+  private static quoteDot(text: string): string {
+    const escaped = text
+      .replace(/\\/g, "\\\\")
+      .replace(/"/g, '\\"')
+      .replace(/\n/g, "\\n");
+    return `"${escaped}"`;
+  }
+}
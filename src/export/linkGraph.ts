@@ -0,0 +1,165 @@
+import * as vscode from "vscode";
+import { DatabaseService, FileMetadata } from "../indexing/dbService";
+import { QueryEngine } from "../query/queryEngine";
+import { PathResolver } from "../utils/pathResolver";
+
+export interface GraphNode {
+  // Workspace relative path, e.g. "notes/alpha.typ", or the link as written
+  // for targets outside the workspace
+  id: string;
+  // "note" for indexed notes; link targets that aren't notes are "file"
+  // (e.g. an image), "missing" (broken links) or "external" (interwiki)
+  kind: "note" | "file" | "missing" | "external";
+  title: string;
+  filePath?: string;
+  metadata?: any;
+  aliases: string[];
+  tags: string[];
+}
+
+export interface GraphEdge {
+  source: string;
+  target: string;
+  // Label or heading path the link points at, e.g. "intro" or "Setup > Tools"
+  label?: string;
+  alias?: string;
+  embed: boolean;
+  broken: boolean;
+}
+
+export interface LinkGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+export interface LinkGraphOptions {
+  // Keep the notes in a folder, relative to the repository root
+  folder?: string;
+  // Keep the notes with a tag or one of its descendants
+  tag?: string;
+  includeBroken?: boolean;
+}
+
+/**
+ * Builds the link graph of the indexed notes (with unsaved changes): a node
+ * per note and an edge per wiki link
+ */
+export class LinkGraphBuilder {
+  /**
+   * Builds the graph of the notes kept by the folder and tag filters. Links
+   * between kept notes are edges, as are links leaving the workspace and,
+   * with `includeBroken`, links to missing files; links to notes that were
+   * filtered out are dropped.
+   */
+  static async build(options: LinkGraphOptions = {}): Promise<LinkGraph> {
+    const allFiles = await DatabaseService.getInstance().getAllFiles();
+    const files = await this.filterFiles(allFiles, options);
+
+    const notes = new Map<string, string>();
+    for (const file of allFiles) {
+      notes.set(this.toComparisonKey(file.filePath), this.toId(file.filePath));
+    }
+    const kept = new Set(files.map((file) => this.toId(file.filePath)));
+
+    const nodes = new Map<string, GraphNode>(
+      files.map((file) => [this.toId(file.filePath), this.toNoteNode(file)])
+    );
+    const edges: GraphEdge[] = [];
+
+    for (const file of files) {
+      for (const link of file.wikilinks) {
+        let target: GraphNode;
+        if (!link.resolvedTarget) {
+          target = this.toTargetNode(link.targetFile, "external");
+        } else {
+          const noteId = notes.get(this.toComparisonKey(link.resolvedTarget));
+          if (noteId !== undefined) {
+            if (!kept.has(noteId)) {
+              continue;
+            }
+            target = nodes.get(noteId)!;
+          } else {
+            const uri = vscode.Uri.file(link.resolvedTarget);
+            const exists = await PathResolver.fileExists(uri);
+            if (!exists && !options.includeBroken) {
+              continue;
+            }
+            target = this.toTargetNode(
+              PathResolver.getWorkspaceRelativePath(uri).replace(/\\/g, "/"),
+              exists ? "file" : "missing"
+            );
+          }
+        }
+
+        if (!nodes.has(target.id)) {
+          nodes.set(target.id, target);
+        }
+        edges.push({
+          source: this.toId(file.filePath),
+          target: target.id,
+          label: link.label ?? link.headingPath?.join(" > "),
+          alias: link.alias,
+          embed: link.embed ?? false,
+          broken: target.kind === "missing",
+        });
+      }
+    }
+
+    return { nodes: Array.from(nodes.values()), edges };
+  }
+
+  /**
+   * Keeps the notes matching the folder and tag filters, using a metadata
+   * query so they match as `FROM "folder" AND tagged("tag")` would. The tag
+   * goes in a string so tags the #tag syntax can't spell, e.g. `c++`, match
+   */
+  private static async filterFiles(
+    files: FileMetadata[],
+    options: LinkGraphOptions
+  ): Promise<FileMetadata[]> {
+    const sources: string[] = [];
+    if (options.folder) {
+      sources.push(JSON.stringify(options.folder));
+    }
+    if (options.tag) {
+      sources.push(`tagged(${JSON.stringify(options.tag.replace(/^#/, ""))})`);
+    }
+    const folder = PathResolver.getRepositoryFolders()[0];
+    if (sources.length === 0 || !folder) {
+      return files;
+    }
+
+    const results = await QueryEngine.run(
+      `FROM ${sources.join(" AND ")}`,
+      vscode.Uri.joinPath(folder.uri, "query.typ")
+    );
+    return results.map((result) => result.file);
+  }
+
+  private static toNoteNode(file: FileMetadata): GraphNode {
+    return {
+      id: this.toId(file.filePath),
+      kind: "note",
+      title: QueryEngine.getTitle(file),
+      filePath: file.filePath,
+      metadata: file.metadata ?? {},
+      aliases: file.aliases ?? [],
+      tags: file.tags ?? [],
+    };
+  }
+
+  private static toTargetNode(id: string, kind: GraphNode["kind"]): GraphNode {
+    return { id, kind, title: id, aliases: [], tags: [] };
+  }
+
+  private static toId(filePath: string): string {
+    return PathResolver.getWorkspaceRelativePath(vscode.Uri.file(filePath)).replace(
+      /\\/g,
+      "/"
+    );
+  }
+
+  private static toComparisonKey(filePath: string): string {
+    return PathResolver.normalizeForComparison(filePath, vscode.Uri.file(filePath));
+  }
+}
@@ -1,18 +1,30 @@
 // The module 'vscode' contains the VS Code extensibility API
 // Import the module and reference it with the alias vscode in your code below
 import * as vscode from "vscode";
+import { BlockReferenceProvider } from "./blockReferenceProvider";
 import { WikiLinkCompletionProvider } from "./completionProvider";
 import { WikiLinkDiagnosticManager } from "./diagnosticProvider";
+import { EmbedExporter } from "./embedExporter";
 import { FileRenameManager } from "./fileRenameManager";
 import { FindReferencesProvider } from "./findReferencesProvider";
+import { GraphExportProvider } from "./graphExportProvider";
 import { LabelRenameProvider } from "./labelRenameProvider";
 import { LabelSymbolProvider } from "./labelSymbolProvider";
 import { LinkSidebarProvider } from "./linkSidebarProvider";
+import { NoteSwitcherProvider } from "./noteSwitcherProvider";
+import { QueryBlockProvider } from "./queryBlockProvider";
+import { QueryResultsProvider } from "./queryResultsProvider";
+import { SearchNotesProvider } from "./searchNotesProvider";
 import { IndexingService } from "./services/indexingService";
 import { LinkDiscovery } from "./services/linkDiscovery";
 import { FileWatcherService } from "./services/fileWatcherService";
 import { SettingsManager } from "./settings";
+import { TagCompletionProvider } from "./tagCompletionProvider";
+import { TagTreeProvider } from "./tagTreeProvider";
 import { TemplateProvider } from "./templateProvider";
+import { PathResolver } from "./utils/pathResolver";
+import { WikiLinkDefinitionProvider } from "./wikiLinkDefinitionProvider";
+import { WikiLinkHoverProvider } from "./wikiLinkHoverProvider";
 import { WikiLinkHandler, WikiLinkProvider } from "./wikiLinkProvider";
 
 export function activate(context: vscode.ExtensionContext) {
@@ -37,6 +49,38 @@ export function activate(context: vscode.ExtensionContext) {
   const templateProvider = new TemplateProvider(context);
   templateProvider.register();
 
+  // Register block reference command
+  const blockReferenceProvider = new BlockReferenceProvider(context);
+  blockReferenceProvider.register();
+
+  // Register embed export command
+  const embedExporter = new EmbedExporter(context);
+  embedExporter.register();
+
+  // Register the metadata query command and its results view
+  const queryResultsProvider = new QueryResultsProvider(context);
+  queryResultsProvider.register();
+
+  // Register live query blocks in notes
+  const queryBlockProvider = new QueryBlockProvider(context);
+  queryBlockProvider.register();
+
+  // Register the tags view and tag rename command
+  const tagTreeProvider = new TagTreeProvider(context);
+  tagTreeProvider.register();
+
+  // Register the Go to Note quick switcher
+  const noteSwitcherProvider = new NoteSwitcherProvider(context, templateProvider);
+  noteSwitcherProvider.register();
+
+  // Register the link graph export command
+  const graphExportProvider = new GraphExportProvider(context);
+  graphExportProvider.register();
+
+  // Register full-text note search
+  const searchNotesProvider = new SearchNotesProvider(context);
+  searchNotesProvider.register();
+
   // Register wiki link provider for .typ files
   const wikiLinkProvider = new WikiLinkProvider();
   const linkProviderDisposable = vscode.languages.registerDocumentLinkProvider(
@@ -51,7 +95,31 @@ export function activate(context: vscode.ExtensionContext) {
       { language: "typst" },
       completionProvider,
       "[", // Trigger completion when '[' is typed
-      ":" // Trigger completion when ':' is typed (for labels)
+      ":", // Trigger completion when ':' is typed (for labels)
+      "#" // Trigger completion when '#' is typed (for heading anchors)
+    );
+
+  // Register completion provider for tags in metadata and #tag("...")
+  const tagCompletionProviderDisposable =
+    vscode.languages.registerCompletionItemProvider(
+      { language: "typst" },
+      new TagCompletionProvider(),
+      '"',
+      "/",
+      "#"
+    );
+
+  // Register hover provider for wiki link previews
+  const hoverProviderDisposable = vscode.languages.registerHoverProvider(
+    { language: "typst" },
+    new WikiLinkHoverProvider()
+  );
+
+  // Register definition provider so Peek Definition previews linked sections
+  const definitionProviderDisposable =
+    vscode.languages.registerDefinitionProvider(
+      { language: "typst" },
+      new WikiLinkDefinitionProvider()
     );
 
   // Register diagnostic provider for wiki link validation
@@ -89,6 +157,21 @@ export function activate(context: vscode.ExtensionContext) {
     }
   );
 
+  // Register rebuild index command
+  const rebuildIndexDisposable = vscode.commands.registerCommand(
+    "typst-oxide.rebuildIndex",
+    async () => {
+      try {
+        await indexingService.rebuildIndex();
+        linkDiscovery.invalidateCache();
+        linkSidebarProvider.refresh();
+      } catch (error) {
+        console.error("Failed to rebuild index:", error);
+        vscode.window.showErrorMessage(`Failed to rebuild index: ${error}`);
+      }
+    }
+  );
+
   // Register command handler for custom wiki link navigation
   const wikiLinkCommandDisposable = vscode.commands.registerCommand(
     "typst-oxide.openWikiLink",
@@ -97,7 +180,8 @@ export function activate(context: vscode.ExtensionContext) {
         const data = typeof args === "string" ? JSON.parse(args) : args;
         const uri = vscode.Uri.parse(data.uri);
         const label = data.label;
-        await WikiLinkHandler.handleWikiLink(uri, label);
+        const heading = Array.isArray(data.heading) ? data.heading : undefined;
+        await WikiLinkHandler.handleWikiLink(uri, label, heading);
       } catch (error) {
         vscode.window.showErrorMessage("Failed to parse wiki link data");
       }
@@ -121,12 +205,23 @@ export function activate(context: vscode.ExtensionContext) {
     "typst-oxide.initRepository",
     async () => {
       try {
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (!workspaceFolder) {
+        const workspaceFolders = vscode.workspace.workspaceFolders;
+        if (!workspaceFolders || workspaceFolders.length === 0) {
           vscode.window.showErrorMessage("No workspace folder is open");
           return;
         }
 
+        // Each folder of a multi-root workspace is its own repository
+        const workspaceFolder =
+          workspaceFolders.length === 1
+            ? workspaceFolders[0]
+            : await vscode.window.showWorkspaceFolderPick({
+                placeHolder: "Select the folder to initialize",
+              });
+        if (!workspaceFolder) {
+          return;
+        }
+
         const typstOxideDir = vscode.Uri.joinPath(
           workspaceFolder.uri,
           ".typst-oxide"
@@ -134,8 +229,9 @@ export function activate(context: vscode.ExtensionContext) {
 
         try {
           await vscode.workspace.fs.createDirectory(typstOxideDir);
+          await settingsManager.reloadSettings();
           vscode.window.showInformationMessage(
-            "Initialized typst-oxide repository"
+            `Initialized typst-oxide repository in ${workspaceFolder.name}`
           );
         } catch (error: any) {
           if (error.code === "FileExists") {
@@ -159,8 +255,7 @@ export function activate(context: vscode.ExtensionContext) {
     "typst-oxide.updateLinksForRename",
     async () => {
       try {
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (!workspaceFolder) {
+        if (!vscode.workspace.workspaceFolders?.length) {
           vscode.window.showErrorMessage("No workspace folder is open");
           return;
         }
@@ -245,6 +340,15 @@ export function activate(context: vscode.ExtensionContext) {
     }
   );
 
+  // Reload per-folder settings when folders are added or removed
+  const workspaceFoldersListener = vscode.workspace.onDidChangeWorkspaceFolders(
+    () => {
+      settingsManager.reloadSettings().catch((error) => {
+        console.error("Failed to reload settings:", error);
+      });
+    }
+  );
+
   // Register tinymist.pinMain command to be invoked when active editor changes
   const activeEditorListener = vscode.window.onDidChangeActiveTextEditor(
     (editor) => {
@@ -261,9 +365,13 @@ export function activate(context: vscode.ExtensionContext) {
     disposable,
     linkProviderDisposable,
     completionProviderDisposable,
+    tagCompletionProviderDisposable,
+    hoverProviderDisposable,
+    definitionProviderDisposable,
     referencesProviderDisposable,
     wikiLinkCommandDisposable,
     refreshLinksDisposable,
+    rebuildIndexDisposable,
     initRepositoryDisposable,
     updateLinksDisposable,
     fileRenameManager,
@@ -272,6 +380,7 @@ export function activate(context: vscode.ExtensionContext) {
     activeEditorListener,
     openSettingsDisposable,
     reloadSettingsDisposable,
+    workspaceFoldersListener,
     settingsManager
   );
 }
@@ -296,22 +405,12 @@ class RepositoryContext {
   }
 
   async updateRepositoryContext(): Promise<void> {
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-    if (!workspaceFolder) {
-      await this.setContext(false);
-      return;
-    }
-
-    try {
-      const typstOxideDir = vscode.Uri.joinPath(
-        workspaceFolder.uri,
-        ".typst-oxide"
-      );
-      await vscode.workspace.fs.stat(typstOxideDir);
-      await this.setContext(true);
-    } catch {
-      await this.setContext(false);
-    }
+    // A repository exists when any workspace folder has a .typst-oxide directory
+    await this.setContext(
+      (vscode.workspace.workspaceFolders ?? []).some((folder) =>
+        PathResolver.isRepositoryFolder(folder)
+      )
+    );
   }
 
   private async setContext(value: boolean): Promise<void> {
@@ -1,7 +1,7 @@
 import * as vscode from "vscode";
-import { WikiLinkProvider } from "./wikiLinkProvider";
 import { LabelSearcher } from "./utils/labelSearcher";
 import { PathResolver } from "./utils/pathResolver";
+import { WikiLinkTokenizer } from "./utils/wikiLinkTokenizer";
 
 /**
  * Provides find references functionality for labels and headings in Typst files
@@ -116,24 +116,35 @@ export class FindReferencesProvider implements vscode.ReferenceProvider {
     const references: vscode.Location[] = [];
     
     // Parse all wiki links in this file
-    const wikiLinks = WikiLinkProvider.parseWikiLinks(document);
+    const wikiLinks = WikiLinkTokenizer.tokenize(document);
 
     for (const wikiLink of wikiLinks) {
-      if (!wikiLink.label) {
+      // Heading anchors reference their innermost heading
+      const referencedName = wikiLink.headingPath
+        ? wikiLink.headingPath[wikiLink.headingPath.length - 1]
+        : wikiLink.label;
+
+      if (!referencedName) {
         continue; // Skip file-only links
       }
+      if (wikiLink.headingPath && targetType !== 'heading') {
+        continue; // Heading anchors never reference labels
+      }
 
       // Normalize the label name for comparison
-      const normalizedLabel = wikiLink.label.toLowerCase().trim();
-      const normalizedTarget = targetName.toLowerCase().trim();
+      const normalizedLabel = referencedName.toLowerCase().trim();
+      const normalizedTarget = (
+        wikiLink.headingPath
+          ? LabelSearcher.normalizeHeadingText(targetName)
+          : targetName
+      ).toLowerCase().trim();
 
       // Check if this wiki link references our target
       if (normalizedLabel === normalizedTarget) {
         // Get the target file URI
-        const targetFilePath = PathResolver.ensureTypstExtension(wikiLink.filePath);
-        const targetUri = PathResolver.resolveFilePath(
+        const targetUri = PathResolver.resolveLinkTarget(
           document.uri,
-          targetFilePath
+          wikiLink.filePath
         );
 
         try {
@@ -143,7 +154,10 @@ export class FindReferencesProvider implements vscode.ReferenceProvider {
           // Verify the target exists in the target file based on type
           let targetFound = false;
           
-          if (targetType === 'label') {
+          if (wikiLink.headingPath) {
+            const headingResult = await LabelSearcher.findHeadingPath(targetDocument, wikiLink.headingPath);
+            targetFound = headingResult.found;
+          } else if (targetType === 'label') {
             const labelResult = await LabelSearcher.findLabel(targetDocument, targetName);
             targetFound = labelResult.found;
           } else if (targetType === 'heading') {
@@ -0,0 +1,146 @@
+import * as vscode from "vscode";
+import { GraphFormat, GraphFormats } from "./export/graphFormats";
+import { LinkGraphBuilder, LinkGraphOptions } from "./export/linkGraph";
+import { PathResolver } from "./utils/pathResolver";
+
+export interface GraphExportOptions extends LinkGraphOptions {
+  format: GraphFormat;
+  // File to write; asked for when missing
+  outputPath?: string;
+}
+
+const FORMATS: Array<vscode.QuickPickItem & { format: GraphFormat }> = [
+  {
+    label: "JSON",
+    description: "Nodes with metadata, aliases and tags, and edges",
+    format: "json",
+  },
+  {
+    label: "CSV",
+    description: "Edge list: source, target, label",
+    format: "csv",
+  },
+  {
+    label: "GraphML",
+    description: "For Gephi, yEd, Cytoscape or NetworkX",
+    format: "graphml",
+  },
+  {
+    label: "Graphviz DOT",
+    description: "For dot, neato and other Graphviz tools",
+    format: "dot",
+  },
+];
+
+/**
+ * Exports the link graph of the notes, with what the index knows about
+ * them, for analysis outside the editor
+ */
+export class GraphExportProvider {
+  constructor(private context: vscode.ExtensionContext) {}
+
+  register(): void {
+    this.context.subscriptions.push(
+      // Tasks and keybindings can pass the options instead of being prompted
+      vscode.commands.registerCommand(
+        "typst-oxide.exportGraph",
+        async (options?: Partial<GraphExportOptions>) => {
+          const exportOptions = options
+            ? { format: "json" as const, ...options }
+            : await this.promptOptions();
+          if (exportOptions) {
+            await this.export(exportOptions);
+          }
+        }
+      )
+    );
+  }
+
+  /**
+   * Asks for the format, the notes to export and whether to keep broken
+   * links
+   */
+  async promptOptions(): Promise<GraphExportOptions | undefined> {
+    const format = await vscode.window.showQuickPick(FORMATS, {
+      title: "Export Link Graph",
+      placeHolder: "Select the export format",
+    });
+    if (!format) {
+      return undefined;
+    }
+
+    const filter = await vscode.window.showInputBox({
+      title: "Export Link Graph",
+      prompt:
+        "Export the notes in a folder and/or with a #tag, or leave empty for all notes",
+      placeHolder: "projects #paper",
+    });
+    if (filter === undefined) {
+      return undefined;
+    }
+
+    const broken = await vscode.window.showQuickPick(
+      [
+        { label: "Exclude broken links", includeBroken: false },
+        { label: "Include broken links", includeBroken: true },
+      ],
+      { title: "Export Link Graph", placeHolder: "Links to missing files" }
+    );
+    if (!broken) {
+      return undefined;
+    }
+
+    // "#tag" words are the tag, the rest is the folder
+    const words = filter.trim().split(/\s+/).filter((word) => word !== "");
+    const folder = words.filter((word) => !word.startsWith("#")).join(" ");
+    return {
+      format: format.format,
+      folder: folder || undefined,
+      tag: words.find((word) => word.startsWith("#"))?.slice(1) || undefined,
+      includeBroken: broken.includeBroken,
+    };
+  }
+
+  /**
+   * Builds the graph and writes it in the chosen format
+   */
+  async export(options: GraphExportOptions): Promise<void> {
+    let uri = options.outputPath
+      ? vscode.Uri.file(options.outputPath)
+      : undefined;
+    if (!uri) {
+      const folder = PathResolver.getRepositoryFolders()[0];
+      uri = await vscode.window.showSaveDialog({
+        title: "Export Link Graph",
+        defaultUri: folder
+          ? vscode.Uri.joinPath(folder.uri, `link-graph.${options.format}`)
+          : undefined,
+        filters: { [options.format.toUpperCase()]: [options.format] },
+      });
+      if (!uri) {
+        return;
+      }
+    }
+
+    try {
+      const graph = await LinkGraphBuilder.build(options);
+      await vscode.workspace.fs.writeFile(
+        uri,
+        Buffer.from(GraphFormats.format(graph, options.format), "utf8")
+      );
+
+      const action = await vscode.window.showInformationMessage(
+        `Exported ${graph.nodes.length} nodes and ${
+          graph.edges.length
+        } links to ${PathResolver.getWorkspaceRelativePath(uri)}`,
+        "Open"
+      );
+      if (action === "Open") {
+        await vscode.window.showTextDocument(uri);
+      }
+    } catch (error) {
+      console.error("Failed to export link graph:", error);
+      vscode.window.showErrorMessage(`Failed to export link graph: ${error}`);
+    }
+  }
+}
@@ -1,12 +1,16 @@
 import * as vscode from "vscode";
 import { Level } from "level";
+import { promises as fs } from "fs";
 import * as path from "path";
+import { PathResolver } from "../utils/pathResolver";
 
 export interface FileMetadata {
   filePath: string;
   lastModified: number;
   metadata: any;
   aliases: string[];
+  // Normalized tags from metadata and `#tag("x")` markers, see TagScanner
+  tags: string[];
   wikilinks: WikiLink[];
   labels: Label[];
   headings: Heading[];
@@ -14,9 +18,14 @@ export interface FileMetadata {
 
 export interface WikiLink {
   sourceFile: string;
+  // Link path as written, e.g. "../notes/x" or an alias
   targetFile: string;
+  // Absolute path the link resolves to; absent for interwiki links
+  resolvedTarget?: string;
   label?: string;
+  headingPath?: string[];
   alias?: string;
+  embed?: boolean;
   range: {
     start: { line: number; character: number };
     end: { line: number; character: number };
@@ -27,7 +36,8 @@ export interface Label {
   name: string;
   filePath: string;
   position: { line: number; character: number };
-  type: "label" | "heading" | "comment";
+  type: "label" | "heading" | "comment" | "block";
+  text?: string;
 }
 
 export interface Heading {
@@ -37,11 +47,79 @@ export interface Heading {
   position: { line: number; character: number };
 }
 
-// LevelDB-based database implementation for persistent storage
+/**
+ * Opens the database of a repository folder with its key spaces: the file
+ * records and the secondary indexes kept in sync with them on every write
+ */
+function openRepositoryDb(root: string) {
+  const db = new Level<string, unknown>(
+    path.join(root, ".typst-oxide", "leveldb"),
+    { valueEncoding: "json" }
+  );
+  const options = { valueEncoding: "json" };
+  return {
+    db,
+    // "schema-version" → version of the stored records and key spaces
+    meta: db.sublevel<string, number>("meta", options),
+    files: db.sublevel<string, FileMetadata>("file", options),
+    // <resolved target>!<source> → source
+    backlinks: db.sublevel<string, string>("backlink", options),
+    // <source>!<resolved target> → resolved target, to drop stale backlinks
+    outlinks: db.sublevel<string, string>("outlink", options),
+    // <last segment of link path>!<source> → source, to find the links a
+    // new note or alias may capture
+    linkNames: db.sublevel<string, string>("linkname", options),
+    // <alias>!<file> → file
+    aliases: db.sublevel<string, string>("alias", options),
+    // <label name>!<file>!<index> → label
+    labels: db.sublevel<string, Label>("label", options),
+    // <tag>!<file> → file
+    tags: db.sublevel<string, string>("tag", options),
+    // <search term>!<file> → occurrences of the term in the file's prose
+    postings: db.sublevel<string, number>("posting", options),
+    // <file> → number of search terms in the file's prose
+    lengths: db.sublevel<string, number>("length", options),
+    // <file> → distinct search terms of the file, to drop stale postings
+    terms: db.sublevel<string, string[]>("terms", options),
+  };
+}
+
+type RepositoryDb = ReturnType<typeof openRepositoryDb>;
+
+// Version of the stored records and key spaces. Bump it whenever their shape
+// changes (e.g. a field of WikiLink or Label), registering an upgrade from
+// the previous version in MIGRATIONS.
+const SCHEMA_VERSION = 3;
+const SCHEMA_VERSION_KEY = "schema-version";
+
+/**
+ * Upgrades a repository database from a schema version (the key) to the
+ * next one. A version without an entry is rebuilt instead: the database is
+ * wiped, and the workspace is re-indexed when indexing starts.
+ */
+const MIGRATIONS: Record<number, (repository: RepositoryDb) => Promise<void>> =
+  {};
+
+/**
+ * Gets the range options of a prefix scan
+ */
+function prefixRange(prefix: string): { gte: string; lt: string } {
+  return { gte: prefix, lt: prefix + String.fromCodePoint(0x10ffff) };
+}
+
+// LevelDB-based database implementation for persistent storage.
+// Each repository folder (a workspace folder with `.typst-oxide`) gets its
+// own database in `.typst-oxide/leveldb`. Backlinks, aliases and labels are
+// also written to secondary key spaces, so lookups are prefix range scans
+// instead of passes over every file record.
 export class DatabaseService {
   private static instance: DatabaseService;
-  private db: Level<string, FileMetadata> | null = null;
+  private dbs: Map<string, RepositoryDb> = new Map();
   private isInitialized = false;
+  // Records built from the unsaved text of dirty documents. Queries return
+  // them in place of the stored records until the document is saved,
+  // reverted or closed.
+  private overlay: Map<string, FileMetadata> = new Map();
 
   private constructor() {}
 
@@ -58,14 +136,7 @@ export class DatabaseService {
     }
 
     try {
-      const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-      if (!workspaceFolder) {
-        throw new Error("No workspace folder found");
-      }
-
-      const dbPath = path.join(workspaceFolder.uri.fsPath, ".typst-oxide", "leveldb");
-      this.db = new Level(dbPath, { valueEncoding: "json" });
-
+      await this.syncRepositories();
       this.isInitialized = true;
       console.log("Typst Oxide LevelDB initialized successfully");
     } catch (error) {
@@ -74,61 +145,452 @@ export class DatabaseService {
     }
   }
 
-  public async upsertFile(fileData: FileMetadata): Promise<void> {
-    if (!this.db) {throw new Error("Database not initialized");}
-    await this.db.put(fileData.filePath, fileData);
+  /**
+   * Opens a database for every repository folder and closes the databases
+   * of folders that were removed from the workspace
+   */
+  public async syncRepositories(): Promise<void> {
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    if (!workspaceFolders || workspaceFolders.length === 0) {
+      throw new Error("No workspace folder found");
+    }
+
+    const roots = PathResolver.getRepositoryFolders().map(
+      (folder) => folder.uri.fsPath
+    );
+
+    for (const [root, repository] of this.dbs) {
+      if (!roots.includes(root)) {
+        await repository.db.close();
+        this.dbs.delete(root);
+      }
+    }
+
+    for (const root of roots) {
+      if (!this.dbs.has(root)) {
+        // Chained batches need an open database, unlike deferred operations
+        const repository = openRepositoryDb(root);
+        await repository.db.open();
+        await this.migrate(repository);
+        this.dbs.set(root, repository);
+      }
+    }
   }
 
-  public async getFile(filePath: string): Promise<FileMetadata | null> {
-    if (!this.db) {throw new Error("Database not initialized");}
-    try {
-      return await this.db.get(filePath);
-    } catch (error: any) {
-      if (error.code === 'LEVEL_NOT_FOUND') {
-        return null;
+  /**
+   * Brings a repository database to the current schema version by running
+   * the registered migrations in order, or by wiping it when one is missing
+   */
+  private async migrate(repository: RepositoryDb): Promise<void> {
+    let version = await repository.meta.get(SCHEMA_VERSION_KEY);
+    if (version === undefined) {
+      // Databases written before versioning count as version 0, which has
+      // no migration: they are rebuilt, dropping the file records stored at
+      // the root before the key spaces existed
+      const keys = await repository.db.keys({ limit: 1 }).all();
+      version = keys.length === 0 ? SCHEMA_VERSION : 0;
+    }
+
+    while (version !== SCHEMA_VERSION) {
+      const migration = MIGRATIONS[version];
+      if (version > SCHEMA_VERSION || !migration) {
+        console.log(
+          `Rebuilding index ${repository.db.location} (schema version ${version}, expected ${SCHEMA_VERSION})`
+        );
+        await repository.db.clear();
+        version = SCHEMA_VERSION;
+        break;
       }
-      throw error;
+
+      await migration(repository);
+      version++;
+      await repository.meta.put(SCHEMA_VERSION_KEY, version);
+    }
+
+    await repository.meta.put(SCHEMA_VERSION_KEY, version);
+  }
+
+  /**
+   * Deletes the database of every repository folder from disk and opens
+   * empty ones in their place
+   */
+  public async rebuild(): Promise<void> {
+    for (const [root, repository] of this.dbs) {
+      await repository.db.close();
+      this.dbs.delete(root);
+      await fs.rm(path.join(root, ".typst-oxide", "leveldb"), {
+        recursive: true,
+        force: true,
+      });
+    }
+
+    await this.syncRepositories();
+  }
+
+  /**
+   * Checks if a file belongs to an indexed repository folder
+   */
+  public hasIndexFor(filePath: string): boolean {
+    return this.getDbForFile(filePath) !== null;
+  }
+
+  /**
+   * Gets the database of the repository folder containing a file
+   */
+  private getDbForFile(filePath: string): RepositoryDb | null {
+    if (!this.isInitialized) {throw new Error("Database not initialized");}
+
+    let match: string | null = null;
+    for (const root of this.dbs.keys()) {
+      if (
+        filePath.startsWith(root + path.sep) &&
+        (!match || root.length > match.length)
+      ) {
+        match = root;
+      }
+    }
+    return match ? this.dbs.get(match)! : null;
+  }
+
+  /**
+   * Gets the databases of all repository folders
+   */
+  private getAllDbs(): RepositoryDb[] {
+    if (!this.isInitialized) {throw new Error("Database not initialized");}
+    return Array.from(this.dbs.values());
+  }
+
+  /**
+   * Iterates the files of every repository database, with unsaved changes,
+   * then the dirty documents that have no stored record yet
+   */
+  private async *iterateFiles(): AsyncGenerator<FileMetadata> {
+    const overlayOnly = new Map(this.overlay);
+    for (const repository of this.getAllDbs()) {
+      for await (const value of repository.files.values()) {
+        overlayOnly.delete(value.filePath);
+        yield this.overlay.get(value.filePath) ?? value;
+      }
+    }
+    yield* overlayOnly.values();
+  }
+
+  /**
+   * Stores a file record and its secondary index entries. The full-text
+   * postings are replaced when the file's search terms are given, and kept
+   * otherwise (e.g. when only link resolution changed).
+   */
+  public async upsertFile(
+    fileData: FileMetadata,
+    searchTerms?: Map<string, number>
+  ): Promise<void> {
+    // Files outside every repository folder aren't indexed
+    const repository = this.getDbForFile(fileData.filePath);
+    if (!repository) {
+      return;
+    }
+
+    const batch = repository.db.batch();
+    await this.removeIndexEntries(repository, batch, fileData.filePath);
+    batch.put(fileData.filePath, fileData, { sublevel: repository.files });
+
+    for (const link of fileData.wikilinks) {
+      if (!link.resolvedTarget) {
+        continue;
+      }
+      const target = this.toTargetKey(link.resolvedTarget);
+      batch.put(`${target}!${fileData.filePath}`, fileData.filePath, {
+        sublevel: repository.backlinks,
+      });
+      batch.put(`${fileData.filePath}!${target}`, target, {
+        sublevel: repository.outlinks,
+      });
+      batch.put(
+        `${this.toLinkNameKey(link.targetFile)}!${fileData.filePath}`,
+        fileData.filePath,
+        { sublevel: repository.linkNames }
+      );
+    }
+
+    for (const alias of fileData.aliases ?? []) {
+      batch.put(`${this.toAliasKey(alias)}!${fileData.filePath}`, fileData.filePath, {
+        sublevel: repository.aliases,
+      });
+    }
+
+    fileData.labels.forEach((label, index) => {
+      batch.put(this.toLabelKey(label, index), label, {
+        sublevel: repository.labels,
+      });
+    });
+
+    for (const tag of fileData.tags ?? []) {
+      batch.put(`${tag}!${fileData.filePath}`, fileData.filePath, {
+        sublevel: repository.tags,
+      });
+    }
+
+    if (searchTerms) {
+      await this.removeSearchEntries(repository, batch, fileData.filePath);
+      let length = 0;
+      for (const [term, count] of searchTerms) {
+        batch.put(`${term}!${fileData.filePath}`, count, {
+          sublevel: repository.postings,
+        });
+        length += count;
+      }
+      batch.put(fileData.filePath, length, { sublevel: repository.lengths });
+      batch.put(fileData.filePath, Array.from(searchTerms.keys()), {
+        sublevel: repository.terms,
+      });
+    }
+
+    await batch.write();
+  }
+
+  /**
+   * Queues the deletion of a file's secondary index entries, as derived from
+   * its stored record and outgoing links
+   */
+  private async removeIndexEntries(
+    repository: RepositoryDb,
+    batch: ReturnType<RepositoryDb["db"]["batch"]>,
+    filePath: string
+  ): Promise<void> {
+    for await (const [key, target] of repository.outlinks.iterator(
+      prefixRange(`${filePath}!`)
+    )) {
+      batch.del(key, { sublevel: repository.outlinks });
+      batch.del(`${target}!${filePath}`, { sublevel: repository.backlinks });
+    }
+
+    const previous = await repository.files.get(filePath);
+    if (!previous) {
+      return;
+    }
+
+    for (const link of previous.wikilinks) {
+      batch.del(`${this.toLinkNameKey(link.targetFile)}!${filePath}`, {
+        sublevel: repository.linkNames,
+      });
+    }
+    for (const alias of previous.aliases ?? []) {
+      batch.del(`${this.toAliasKey(alias)}!${filePath}`, {
+        sublevel: repository.aliases,
+      });
+    }
+    previous.labels.forEach((label, index) => {
+      batch.del(this.toLabelKey(label, index), { sublevel: repository.labels });
+    });
+    for (const tag of previous.tags ?? []) {
+      batch.del(`${tag}!${filePath}`, { sublevel: repository.tags });
+    }
+  }
+
+  /**
+   * Queues the deletion of a file's full-text postings and length
+   */
+  private async removeSearchEntries(
+    repository: RepositoryDb,
+    batch: ReturnType<RepositoryDb["db"]["batch"]>,
+    filePath: string
+  ): Promise<void> {
+    for (const term of (await repository.terms.get(filePath)) ?? []) {
+      batch.del(`${term}!${filePath}`, { sublevel: repository.postings });
+    }
+    batch.del(filePath, { sublevel: repository.lengths });
+    batch.del(filePath, { sublevel: repository.terms });
+  }
+
+  /**
+   * Backlink keys use the resolved target path under the path equivalence
+   * policy, so lookups match however the link was written
+   */
+  private toTargetKey(targetFile: string): string {
+    return PathResolver.normalizeForComparison(
+      targetFile,
+      vscode.Uri.file(targetFile)
+    );
+  }
+
+  /**
+   * Link name keys use the last segment of a link path without the .typ
+   * extension, which is what note names and aliases are matched against
+   */
+  private toLinkNameKey(linkPath: string): string {
+    const name = linkPath.split(/[/\\]/).pop() ?? "";
+    return this.toAliasKey(name.replace(/\.typ$/, ""));
+  }
+
+  private toAliasKey(alias: string): string {
+    return alias.trim().normalize("NFC").toLowerCase();
+  }
+
+  private toLabelKey(label: Label, index: number): string {
+    return `${label.name.toLowerCase()}!${label.filePath}!${index}`;
+  }
+
+  /**
+   * Gets the record of a file, including unsaved changes
+   */
+  public async getFile(filePath: string): Promise<FileMetadata | null> {
+    return this.overlay.get(filePath) ?? (await this.getStoredFile(filePath));
+  }
+
+  /**
+   * Gets the record of a file as last indexed from disk
+   */
+  public async getStoredFile(filePath: string): Promise<FileMetadata | null> {
+    const db = this.getDbForFile(filePath);
+    if (!db) {
+      return null;
     }
+    return (await db.files.get(filePath)) ?? null;
   }
 
   public async getAllFiles(): Promise<FileMetadata[]> {
-    if (!this.db) {throw new Error("Database not initialized");}
     const files: FileMetadata[] = [];
-    for await (const [, value] of this.db.iterator()) {
+    for await (const value of this.iterateFiles()) {
       files.push(value);
     }
     return files;
   }
 
+  /**
+   * Sets the record of a dirty document's unsaved text
+   */
+  public setOverlay(fileData: FileMetadata): void {
+    this.overlay.set(fileData.filePath, fileData);
+  }
+
+  /**
+   * Drops the unsaved record of a document. Returns false if it had none.
+   */
+  public deleteOverlay(filePath: string): boolean {
+    return this.overlay.delete(filePath);
+  }
+
+  /**
+   * Lists the paths of all indexed files, reading only the record keys
+   */
+  public async getIndexedFilePaths(): Promise<string[]> {
+    const filePaths: string[] = [];
+    for (const repository of this.getAllDbs()) {
+      for await (const filePath of repository.files.keys()) {
+        filePaths.push(filePath);
+      }
+    }
+    return filePaths;
+  }
+
   public async deleteFile(filePath: string): Promise<void> {
-    if (!this.db) {throw new Error("Database not initialized");}
-    await this.db.del(filePath);
+    const repository = this.getDbForFile(filePath);
+    if (!repository) {
+      return;
+    }
+
+    const batch = repository.db.batch();
+    await this.removeIndexEntries(repository, batch, filePath);
+    await this.removeSearchEntries(repository, batch, filePath);
+    batch.del(filePath, { sublevel: repository.files });
+    await batch.write();
   }
 
+  /**
+   * Gets the files with a wiki link that resolves to a file (by relative
+   * path, note name or alias)
+   */
   public async getFilesWithWikilinksTo(targetFile: string): Promise<FileMetadata[]> {
-    if (!this.db) {throw new Error("Database not initialized");}
+    const prefix = `${this.toTargetKey(targetFile)}!`;
+    const files: FileMetadata[] = [];
+
+    for (const repository of this.getAllDbs()) {
+      const sources: string[] = [];
+      for await (const [key, source] of repository.backlinks.iterator(
+        prefixRange(prefix)
+      )) {
+        // Paths may contain "!", so check the key isn't for a longer target
+        if (key === prefix + source) {
+          sources.push(source);
+        }
+      }
+      files.push(...(await this.getManyFiles(repository, sources)));
+    }
+
+    // Unsaved links replace the stored ones of dirty documents
+    const target = this.toTargetKey(targetFile);
+    return files
+      .filter((file) => !this.overlay.has(file.filePath))
+      .concat(
+        Array.from(this.overlay.values()).filter((file) =>
+          file.wikilinks.some(
+            (link) =>
+              link.resolvedTarget &&
+              this.toTargetKey(link.resolvedTarget) === target
+          )
+        )
+      );
+  }
+
+  /**
+   * Gets the files with a wiki link whose last path segment is a name (e.g.
+   * "x" for [[notes/x]]), whatever the link currently resolves to
+   */
+  public async getFilesLinkingByName(name: string): Promise<FileMetadata[]> {
+    const prefix = `${this.toLinkNameKey(name)}!`;
     const files: FileMetadata[] = [];
-    for await (const [, value] of this.db.iterator()) {
-      if (value.wikilinks.some((link) => link.targetFile === targetFile)) {
-        files.push(value);
+
+    for (const repository of this.getAllDbs()) {
+      const sources: string[] = [];
+      for await (const [key, source] of repository.linkNames.iterator(
+        prefixRange(prefix)
+      )) {
+        if (key === prefix + source) {
+          sources.push(source);
+        }
       }
+      files.push(...(await this.getManyFiles(repository, sources)));
     }
     return files;
   }
 
+  private async getManyFiles(
+    repository: RepositoryDb,
+    filePaths: string[]
+  ): Promise<FileMetadata[]> {
+    const files = await repository.files.getMany(filePaths);
+    return files
+      .filter((file): file is FileMetadata => file !== undefined)
+      .map((file) => this.overlay.get(file.filePath) ?? file);
+  }
+
   public async getLabelsInFile(filePath: string): Promise<Label[]> {
     const file = await this.getFile(filePath);
     return file ? file.labels : [];
   }
 
+  /**
+   * Finds the labels whose name starts with a query, ignoring case
+   */
   public async searchLabels(query: string): Promise<Label[]> {
-    if (!this.db) {throw new Error("Database not initialized");}
     const matchingLabels: Label[] = [];
-    for await (const [, file] of this.db.iterator()) {
-      const labels = file.labels.filter((label) =>
-        label.name.toLowerCase().includes(query.toLowerCase())
+    const lowerQuery = query.toLowerCase();
+    for (const repository of this.getAllDbs()) {
+      for await (const label of repository.labels.values(
+        prefixRange(lowerQuery)
+      )) {
+        if (!this.overlay.has(label.filePath)) {
+          matchingLabels.push(label);
+        }
+      }
+    }
+
+    for (const file of this.overlay.values()) {
+      matchingLabels.push(
+        ...file.labels.filter((label) =>
+          label.name.toLowerCase().startsWith(lowerQuery)
+        )
       );
-      matchingLabels.push(...labels);
     }
     return matchingLabels;
   }
@@ -140,15 +602,14 @@ export class DatabaseService {
 
   public async isFileIndexed(filePath: string): Promise<boolean> {
     try {
-      await this.getFile(filePath);
-      return true;
+      return (await this.getStoredFile(filePath)) !== null;
     } catch {
       return false;
     }
   }
 
   public async getLastModified(filePath: string): Promise<number | null> {
-    const file = await this.getFile(filePath);
+    const file = await this.getStoredFile(filePath);
     return file ? file.lastModified : null;
   }
 
@@ -156,12 +617,19 @@ export class DatabaseService {
    * Gets all files that have the specified alias
    */
   public async getFilesByAlias(alias: string): Promise<FileMetadata[]> {
-    if (!this.db) {throw new Error("Database not initialized");}
+    const prefix = `${this.toAliasKey(alias)}!`;
     const matchingFiles: FileMetadata[] = [];
-    for await (const [, file] of this.db.iterator()) {
-      if (file.aliases && file.aliases.some(a => a.toLowerCase() === alias.toLowerCase())) {
-        matchingFiles.push(file);
+
+    for (const repository of this.getAllDbs()) {
+      const filePaths: string[] = [];
+      for await (const [key, filePath] of repository.aliases.iterator(
+        prefixRange(prefix)
+      )) {
+        if (key === prefix + filePath) {
+          filePaths.push(filePath);
+        }
       }
+      matchingFiles.push(...(await this.getManyFiles(repository, filePaths)));
     }
     return matchingFiles;
   }
@@ -170,23 +638,140 @@ export class DatabaseService {
    * Searches for files by alias (partial match)
    */
   public async searchFilesByAlias(query: string): Promise<FileMetadata[]> {
-    if (!this.db) {throw new Error("Database not initialized");}
     const matchingFiles: FileMetadata[] = [];
-    const lowerQuery = query.toLowerCase();
-    
-    for await (const [, file] of this.db.iterator()) {
-      if (file.aliases && file.aliases.some(alias => alias.toLowerCase().includes(lowerQuery))) {
-        matchingFiles.push(file);
+    const lowerQuery = this.toAliasKey(query);
+
+    // Partial matches can't be a range scan, but only the alias keys are read
+    for (const repository of this.getAllDbs()) {
+      const filePaths = new Set<string>();
+      for await (const [key, filePath] of repository.aliases.iterator()) {
+        const alias = key.slice(0, key.length - filePath.length - 1);
+        if (alias.includes(lowerQuery)) {
+          filePaths.add(filePath);
+        }
       }
+      matchingFiles.push(
+        ...(await this.getManyFiles(repository, Array.from(filePaths)))
+      );
     }
     return matchingFiles;
   }
 
+  /**
+   * Gets the files with a tag or, unless `exact` is set, one of its
+   * descendants (`project/alpha` for `project`)
+   */
+  public async getFilesByTag(tag: string, exact = false): Promise<FileMetadata[]> {
+    const prefixes = exact ? [`${tag}!`] : [`${tag}!`, `${tag}/`];
+    const matchingFiles: FileMetadata[] = [];
+
+    for (const repository of this.getAllDbs()) {
+      const filePaths = new Set<string>();
+      for (const prefix of prefixes) {
+        for await (const [key, filePath] of repository.tags.iterator(
+          prefixRange(prefix)
+        )) {
+          const fileTag = key.slice(0, key.length - filePath.length - 1);
+          if (fileTag === tag || (!exact && fileTag.startsWith(`${tag}/`))) {
+            filePaths.add(filePath);
+          }
+        }
+      }
+      matchingFiles.push(
+        ...(await this.getManyFiles(repository, Array.from(filePaths)))
+      );
+    }
+
+    // Unsaved tags replace the stored ones of dirty documents
+    return matchingFiles
+      .filter((file) => !this.overlay.has(file.filePath))
+      .concat(
+        Array.from(this.overlay.values()).filter((file) =>
+          (file.tags ?? []).some(
+            (fileTag) => fileTag === tag || (!exact && fileTag.startsWith(`${tag}/`))
+          )
+        )
+      );
+  }
+
+  /**
+   * Gets every tag in use with the files that have it, reading only the tag
+   * keys
+   */
+  public async getAllTags(): Promise<Map<string, string[]>> {
+    const tags = new Map<string, string[]>();
+    const add = (tag: string, filePath: string) => {
+      const files = tags.get(tag) ?? [];
+      files.push(filePath);
+      tags.set(tag, files);
+    };
+
+    for (const repository of this.getAllDbs()) {
+      for await (const [key, filePath] of repository.tags.iterator()) {
+        if (!this.overlay.has(filePath)) {
+          add(key.slice(0, key.length - filePath.length - 1), filePath);
+        }
+      }
+    }
+    for (const file of this.overlay.values()) {
+      for (const tag of file.tags ?? []) {
+        add(tag, file.filePath);
+      }
+    }
+    return tags;
+  }
+
+  /**
+   * Gets the postings of a search term (file → occurrences) or, with
+   * `prefix`, of up to `maxTerms` terms starting with it
+   */
+  public async getPostings(
+    term: string,
+    prefix = false,
+    maxTerms = 50
+  ): Promise<Map<string, Map<string, number>>> {
+    const postings = new Map<string, Map<string, number>>();
+
+    for (const repository of this.getAllDbs()) {
+      for await (const [key, count] of repository.postings.iterator(
+        prefixRange(prefix ? term : `${term}!`)
+      )) {
+        // Search terms are made of letters and digits, never "!"
+        const separator = key.indexOf("!");
+        const keyTerm = key.slice(0, separator);
+        let files = postings.get(keyTerm);
+        if (!files) {
+          if (postings.size >= maxTerms) {
+            break;
+          }
+          files = new Map();
+          postings.set(keyTerm, files);
+        }
+        files.set(key.slice(separator + 1), count);
+      }
+    }
+    return postings;
+  }
+
+  /**
+   * Gets the number of search terms of every file in the full-text index
+   */
+  public async getDocumentLengths(): Promise<Map<string, number>> {
+    const lengths = new Map<string, number>();
+    for (const repository of this.getAllDbs()) {
+      for await (const [filePath, length] of repository.lengths.iterator()) {
+        lengths.set(filePath, length);
+      }
+    }
+    return lengths;
+  }
+
   public async dispose(): Promise<void> {
-    if (this.db) {
-      await this.db.close();
-      this.db = null;
+    for (const repository of this.dbs.values()) {
+      await repository.db.close();
     }
+    this.dbs.clear();
+    this.overlay.clear();
     this.isInitialized = false;
   }
 }
@@ -1,13 +1,19 @@
-import * as cp from "child_process";
 import { promises as fs } from "fs";
 import * as vscode from "vscode";
+import { BlockExtractor } from "../utils/blockExtractor";
+import { SearchTokenizer } from "../search/searchTokenizer";
+import { MetadataParser } from "../utils/metadataParser";
+import { TagScanner } from "../utils/tagScanner";
+import { TypstRunner } from "../utils/typstRunner";
+import { WikiLinkMatch, WikiLinkTokenizer } from "../utils/wikiLinkTokenizer";
 
 export interface TypstMetadata {
   title?: string;
   author?: string | string[];
   date?: string;
   description?: string;
-  keywords?: string[];
+  keywords?: string | string[];
+  tags?: string | string[];
   [key: string]: any;
 }
 
@@ -18,17 +24,24 @@ export interface ExtractedMetadata {
   labels: Array<{
     name: string;
     position: { line: number; character: number };
-    type: "label" | "heading" | "comment";
+    type: "label" | "heading" | "comment" | "block";
+    text?: string;
   }>;
   headings: Array<{
     text: string;
     level: number;
     position: { line: number; character: number };
   }>;
+  // Tags of `#tag("x")` markers; metadata tags are read from `metadata`
+  tags: string[];
+  // Occurrences of each full-text search term in the prose (markup text)
+  searchTerms: Map<string, number>;
   wikilinks: Array<{
     targetFile: string;
     label?: string;
+    headingPath?: string[];
     alias?: string;
+    embed?: boolean;
     range: {
       start: { line: number; character: number };
       end: { line: number; character: number };
@@ -49,7 +62,9 @@ export class MetadataExtractor {
   }
 
   /**
-   * Extracts metadata from a typst file using the typst query command
+   * Extracts metadata from a typst file using the typst query command. The
+   * file is read from disk: unsaved changes of an open document are only
+   * indexed as its overlay, see `extractStructure`.
    */
   public async extractMetadata(
     fileUri: vscode.Uri
@@ -63,24 +78,24 @@ export class MetadataExtractor {
         return null;
       }
 
+      const content = await fs.readFile(filePath, "utf8");
+
       // Extract metadata using typst query
-      const metadata = await this.queryTypstMetadata(filePath);
+      const metadata = await this.queryTypstMetadata(fileUri, content);
 
       // Parse file content for additional information
-      const document = await vscode.workspace.openTextDocument(fileUri);
-      const content = document.getText();
-
-      const labels = this.extractLabels(content, filePath);
-      const headings = this.extractHeadings(content, filePath);
-      const wikilinks = this.extractWikilinks(content, filePath);
-
       return {
         filePath,
         lastModified: stats.mtime.getTime(),
         metadata,
-        labels,
-        headings,
-        wikilinks,
+        ...this.extractStructureOf(
+          content,
+          filePath,
+          WikiLinkTokenizer.tokenizeText(content)
+        ),
+        searchTerms: SearchTokenizer.countTerms(
+          WikiLinkTokenizer.extractMarkupText(content)
+        ),
       };
     } catch (error) {
       console.error(
@@ -92,39 +107,74 @@ export class MetadataExtractor {
   }
 
   /**
-   * Queries typst for metadata using the command line
+   * Extracts the labels, headings, inline tags and wiki links of a
+   * document's current text, which may be unsaved
    */
-  private async queryTypstMetadata(filePath: string): Promise<TypstMetadata> {
-    return new Promise((resolve) => {
-      const command = `typst query "${filePath}" "metadata" --field value --one`;
-
-      cp.exec(command, (error, stdout, stderr) => {
-        if (error) {
-          console.warn(`Typst query failed for ${filePath}:`, error.message);
-          resolve({});
-          return;
-        }
-
-        if (stderr) {
-          console.warn(`Typst query stderr for ${filePath}:`, stderr);
-        }
-
-        try {
-          if (stdout.trim()) {
-            const metadata = JSON.parse(stdout.trim());
-            resolve(metadata);
-          } else {
-            resolve({});
-          }
-        } catch (parseError) {
-          console.warn(
-            `Failed to parse metadata JSON for ${filePath}:`,
-            parseError
-          );
-          resolve({});
-        }
-      });
+  public extractStructure(
+    document: vscode.TextDocument
+  ): Pick<ExtractedMetadata, "labels" | "headings" | "tags" | "wikilinks"> {
+    return this.extractStructureOf(
+      document.getText(),
+      document.uri.fsPath,
+      WikiLinkTokenizer.tokenize(document)
+    );
+  }
+
+  private extractStructureOf(
+    content: string,
+    filePath: string,
+    links: WikiLinkMatch[]
+  ): Pick<ExtractedMetadata, "labels" | "headings" | "tags" | "wikilinks"> {
+    return {
+      labels: this.extractLabels(content, filePath),
+      headings: this.extractHeadings(content, filePath),
+      tags: TagScanner.findTags(content)
+        .filter((occurrence) => occurrence.inline)
+        .map((occurrence) => occurrence.tag),
+      wikilinks: this.extractWikilinks(links),
+    };
+  }
+
+  /**
+   * Queries typst for metadata using the command line. Metadata made only of
+   * literals is parsed directly instead, and what could be parsed is the
+   * fallback when typst fails (e.g. it isn't installed).
+   */
+  private async queryTypstMetadata(
+    fileUri: vscode.Uri,
+    content: string
+  ): Promise<TypstMetadata> {
+    const filePath = fileUri.fsPath;
+    const parsed = MetadataParser.parse(content);
+    if (parsed?.complete) {
+      return parsed.value;
+    }
+
+    const result = await TypstRunner.query(fileUri, "metadata", {
+      field: "value",
+      one: true,
     });
+
+    for (const diagnostic of result.diagnostics) {
+      const location = diagnostic.file
+        ? ` (${diagnostic.file}:${diagnostic.line}:${diagnostic.column})`
+        : "";
+      console.warn(
+        `Typst query ${diagnostic.severity} for ${filePath}: ${diagnostic.message}${location}`
+      );
+    }
+
+    if (result.error) {
+      console.warn(`Typst query failed for ${filePath}:`, result.error);
+      return parsed?.value ?? {};
+    }
+
+    try {
+      return result.stdout.trim() ? JSON.parse(result.stdout.trim()) : {};
+    } catch (parseError) {
+      console.warn(`Failed to parse metadata JSON for ${filePath}:`, parseError);
+      return parsed?.value ?? {};
+    }
   }
 
   /**
@@ -136,12 +186,14 @@ export class MetadataExtractor {
   ): Array<{
     name: string;
     position: { line: number; character: number };
-    type: "label" | "heading" | "comment";
+    type: "label" | "heading" | "comment" | "block";
+    text?: string;
   }> {
     const labels: Array<{
       name: string;
       position: { line: number; character: number };
-      type: "label" | "heading" | "comment";
+      type: "label" | "heading" | "comment" | "block";
+      text?: string;
     }> = [];
 
     const lines = content.split("\n");
@@ -155,10 +207,17 @@ export class MetadataExtractor {
       const lineStart = beforeMatch.lastIndexOf("\n") + 1;
       const charIndex = match.index - lineStart + 1;
 
+      // Labels closing a paragraph carry its text, so links can preview the block
+      const paragraph = BlockExtractor.findParagraph(lines, lineIndex);
+      const closesParagraph =
+        paragraph?.endLine === lineIndex &&
+        BlockExtractor.getTrailingLabel(lines[lineIndex]) === match[1];
+
       labels.push({
         name: match[1],
         position: { line: lineIndex, character: charIndex },
-        type: "label",
+        type: match[1].startsWith("blk-") ? "block" : "label",
+        text: closesParagraph ? paragraph.text : undefined,
       });
     }
 
@@ -234,72 +293,34 @@ export class MetadataExtractor {
   /**
    * Extracts wikilinks from typst content
    */
-  private extractWikilinks(
-    content: string,
-    filePath: string
-  ): Array<{
+  private extractWikilinks(links: WikiLinkMatch[]): Array<{
     targetFile: string;
     label?: string;
+    headingPath?: string[];
     alias?: string;
+    embed?: boolean;
     range: {
       start: { line: number; character: number };
       end: { line: number; character: number };
     };
   }> {
-    const wikilinks: Array<{
-      targetFile: string;
-      label?: string;
-      alias?: string;
+    return links.map((link) => ({
+      targetFile: link.filePath,
+      label: link.label,
+      headingPath: link.headingPath,
+      alias: link.alias,
+      embed: link.embed,
       range: {
-        start: { line: number; character: number };
-        end: { line: number; character: number };
-      };
-    }> = [];
-
-    const wikiLinkRegex = /\[\[([^\]]+)\]\]/g;
-    let match;
-
-    while ((match = wikiLinkRegex.exec(content)) !== null) {
-      const fullMatch = match[0];
-      const linkContent = match[1];
-
-      // Parse link content: file:label|alias
-      const parts = linkContent.split(":");
-      const filePart = parts[0];
-      const labelPart = parts.length > 1 ? parts[1] : undefined;
-
-      let targetFile = filePart.trim();
-      let label: string | undefined;
-      let alias: string | undefined;
-
-      if (labelPart) {
-        const labelParts = labelPart.split("|");
-        label = labelParts[0].trim();
-        alias = labelParts.length > 1 ? labelParts[1].trim() : undefined;
-      }
-
-      // Calculate position
-      const beforeMatch = content.substring(0, match.index);
-      const startLine = beforeMatch.split("\n").length - 1;
-      const startChar = beforeMatch.length - beforeMatch.lastIndexOf("\n") - 1;
-
-      const afterStart = beforeMatch.length + fullMatch.length;
-      const endLine = content.substring(0, afterStart).split("\n").length - 1;
-      const endChar =
-        afterStart - content.substring(0, afterStart).lastIndexOf("\n") - 1;
-
-      wikilinks.push({
-        targetFile,
-        label,
-        alias,
-        range: {
-          start: { line: startLine, character: startChar },
-          end: { line: endLine, character: endChar },
+        start: {
+          line: link.range.start.line,
+          character: link.range.start.character,
         },
-      });
-    }
-
-    return wikilinks;
+        end: {
+          line: link.range.end.line,
+          character: link.range.end.character,
+        },
+      },
+    }));
   }
 
   /**
@@ -315,13 +336,26 @@ export class MetadataExtractor {
   }
 
   /**
-   * Batch extracts metadata from multiple files in parallel
+   * Batch extracts metadata from multiple files, running at most
+   * `concurrency` typst processes at once
    */
   public async extractBatch(
-    fileUris: vscode.Uri[]
+    fileUris: vscode.Uri[],
+    concurrency = 4
   ): Promise<ExtractedMetadata[]> {
-    const promises = fileUris.map(uri => this.extractMetadata(uri));
-    const results = await Promise.all(promises);
+    const results: (ExtractedMetadata | null)[] = new Array(fileUris.length);
+    let next = 0;
+
+    const worker = async () => {
+      while (next < fileUris.length) {
+        const index = next++;
+        results[index] = await this.extractMetadata(fileUris[index]);
+      }
+    };
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, fileUris.length) }, worker)
+    );
+
     return results.filter((metadata): metadata is ExtractedMetadata => metadata !== null);
   }
 }
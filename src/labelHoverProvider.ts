@@ -1,5 +1,6 @@
 import * as vscode from "vscode";
 import * as path from "path";
+import { WikiLinkTokenizer } from "./utils/wikiLinkTokenizer";
 
 export class LabelHoverProvider implements vscode.HoverProvider {
   /**
@@ -85,20 +86,11 @@ export class LabelHoverProvider implements vscode.HoverProvider {
     }
 
     // Check for wiki link label: [[file:label]]
-    const wikiLinkRegex = /\[\[([^\]]+?):([^\]]+?)\]\]/g;
-    wikiLinkRegex.lastIndex = 0;
-    
-    while ((match = wikiLinkRegex.exec(lineText)) !== null) {
-      const labelPart = match[2];
-      const labelStart = match.index + match[0].indexOf(labelPart);
-      const startPos = new vscode.Position(position.line, labelStart);
-      const endPos = new vscode.Position(position.line, labelStart + labelPart.length);
-      const range = new vscode.Range(startPos, endPos);
-      
-      if (range.contains(position)) {
+    for (const link of WikiLinkTokenizer.tokenize(document)) {
+      if (link.label && link.labelRange?.contains(position)) {
         return {
-          label: labelPart,
-          range
+          label: link.label,
+          range: link.labelRange
         };
       }
     }
@@ -136,11 +128,11 @@ export class LabelHoverProvider implements vscode.HoverProvider {
         }
         
         // Find wiki link label references: [[*:label]]
-        const wikiLinkLabelRegex = new RegExp(`\\[\\[[^\]]*?:${label}\\]\\]`, 'g');
-        while ((match = wikiLinkLabelRegex.exec(text)) !== null) {
-          const labelStart = match[0].indexOf(label);
-          const position = document.positionAt(match.index + labelStart);
-          references.push(new vscode.Location(fileUri, new vscode.Range(position, position)));
+        for (const link of WikiLinkTokenizer.tokenize(document)) {
+          if (link.label === label && link.labelRange) {
+            const position = link.labelRange.start;
+            references.push(new vscode.Location(fileUri, new vscode.Range(position, position)));
+          }
         }
         
       } catch (error) {
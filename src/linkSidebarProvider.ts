@@ -1,6 +1,11 @@
 import * as path from "path";
 import * as vscode from "vscode";
+import { IndexingService } from "./services/indexingService";
 import { LinkDiscovery, LinkInfo } from "./services/linkDiscovery.js";
+import { PathResolver } from "./utils/pathResolver";
+
+// Coalesces the refreshes of a burst of index updates, e.g. while indexing
+const REFRESH_DELAY = 500;
 
 export class LinkSidebarProvider
   implements vscode.TreeDataProvider<LinkTreeItem>
@@ -14,6 +19,7 @@ export class LinkSidebarProvider
 
   private linkDiscovery: LinkDiscovery;
   private currentFile: string | undefined;
+  private refreshTimer: NodeJS.Timeout | undefined;
 
   constructor(private context: vscode.ExtensionContext) {
     this.linkDiscovery = LinkDiscovery.getInstance();
@@ -32,6 +38,11 @@ export class LinkSidebarProvider
       }
     });
 
+    // Assets such as images and PDFs open in custom editors, not text editors
+    vscode.window.tabGroups.onDidChangeTabs(() => {
+      this.refresh();
+    });
+
     // Listen for document changes to refresh links
     vscode.workspace.onDidSaveTextDocument((document) => {
       if (document.languageId === "typst") {
@@ -41,6 +52,16 @@ export class LinkSidebarProvider
       }
     });
 
+    // Links typed but not saved yet are indexed in the background
+    IndexingService.getInstance().onDidChangeOverlay(() => {
+      this.refresh();
+    });
+
+    // Backlinks move when a linked note or asset is created or deleted
+    IndexingService.getInstance().onDidUpdateFile(() => {
+      this.scheduleRefresh();
+    });
+
     // Listen for file system changes
     vscode.workspace.onDidChangeWorkspaceFolders(() => {
       this.linkDiscovery.refreshAll().then(() => {
@@ -56,6 +77,11 @@ export class LinkSidebarProvider
     this._onDidChangeTreeData.fire();
   }
 
+  private scheduleRefresh(): void {
+    clearTimeout(this.refreshTimer);
+    this.refreshTimer = setTimeout(() => this.refresh(), REFRESH_DELAY);
+  }
+
   /**
    * Gets the tree item for display
    */
@@ -75,21 +101,51 @@ export class LinkSidebarProvider
       element.contextValue === "category" &&
       (element.linkInfo as any).links
     ) {
+      const contextValue = (element.linkInfo as any).backward
+        ? "backlink"
+        : "link";
       return (element.linkInfo as any).links.map(
         (link: LinkInfo) =>
-          new LinkTreeItem(link, vscode.TreeItemCollapsibleState.None, "link")
+          new LinkTreeItem(
+            link,
+            vscode.TreeItemCollapsibleState.None,
+            contextValue
+          )
       );
     }
 
     return [];
   }
 
+  /**
+   * Gets the file shown in the active tab: a Typst note, or a linkable asset
+   * (e.g. an image in the image preview)
+   */
+  private getActiveFileUri(): vscode.Uri | undefined {
+    const activeEditor = vscode.window.activeTextEditor;
+    if (activeEditor?.document.languageId === "typst") {
+      return activeEditor.document.uri;
+    }
+
+    const input = vscode.window.tabGroups.activeTabGroup.activeTab?.input;
+    if (
+      (input instanceof vscode.TabInputText ||
+        input instanceof vscode.TabInputCustom) &&
+      input.uri.scheme === "file" &&
+      PathResolver.isLinkableExtension(path.extname(input.uri.fsPath))
+    ) {
+      return input.uri;
+    }
+
+    return undefined;
+  }
+
   /**
    * Gets the root items for the tree
    */
   private async getRootItems(): Promise<LinkTreeItem[]> {
-    const activeEditor = vscode.window.activeTextEditor;
-    if (!activeEditor || activeEditor.document.languageId !== "typst") {
+    const activeUri = this.getActiveFileUri();
+    if (!activeUri) {
       return [
         new LinkTreeItem(
           { label: "Open a .typ file to see links" } as any,
@@ -100,9 +156,7 @@ export class LinkSidebarProvider
     }
 
     try {
-      const fileLinks = await this.linkDiscovery.getFileLinks(
-        activeEditor.document.uri
-      );
+      const fileLinks = await this.linkDiscovery.getFileLinks(activeUri);
 
       const items: LinkTreeItem[] = [];
 
@@ -125,6 +179,7 @@ export class LinkSidebarProvider
           {
             label: `Backward Links (${fileLinks.backwardLinks.length})`,
             links: fileLinks.backwardLinks,
+            backward: true,
           } as any,
           vscode.TreeItemCollapsibleState.Expanded,
           "category",
@@ -176,8 +231,12 @@ export class LinkTreeItem extends vscode.TreeItem {
         ? path.relative(workspaceFolder.uri.fsPath, link.targetFile)
         : path.basename(link.targetFile);
 
+      const anchor = link.headingPath
+        ? link.headingPath.join(" › ")
+        : link.label;
+
       this.label = relativePath;
-      this.description = link.label ? `#${link.label}` : "";
+      this.description = anchor ? `#${anchor}` : "";
 
       // Set icon based on link status
       if (!link.exists) {
@@ -186,15 +245,15 @@ export class LinkTreeItem extends vscode.TreeItem {
           new vscode.ThemeColor("errorForeground")
         );
         this.tooltip = `File not found: ${relativePath}`;
-      } else if (link.label && !link.labelExists) {
+      } else if (anchor && !link.labelExists) {
         this.iconPath = new vscode.ThemeIcon(
           "warning",
           new vscode.ThemeColor("warningForeground")
         );
-        this.tooltip = `Label "${link.label}" not found in ${relativePath}`;
-      } else if (link.label && link.labelExists) {
+        this.tooltip = `${link.headingPath ? "Heading" : "Label"} "${anchor}" not found in ${relativePath}`;
+      } else if (anchor && link.labelExists) {
         this.iconPath = new vscode.ThemeIcon("link");
-        this.tooltip = `Navigate to label "${link.label}" in ${relativePath}`;
+        this.tooltip = `Navigate to ${link.headingPath ? "heading" : "label"} "${anchor}" in ${relativePath}`;
       } else {
         this.iconPath = new vscode.ThemeIcon("file");
         this.tooltip = `Navigate to ${relativePath}`;
@@ -208,9 +267,25 @@ export class LinkTreeItem extends vscode.TreeItem {
           {
             uri: vscode.Uri.file(link.targetFile).toString(),
             label: link.label || "",
+            heading: link.headingPath,
           },
         ],
       };
+    } else if (contextValue === "backlink") {
+      const link = linkInfo as LinkInfo;
+      const sourceUri = vscode.Uri.file(link.sourceFile);
+
+      this.label = PathResolver.getWorkspaceRelativePath(sourceUri);
+      this.description = `line ${link.range.start.line + 1}`;
+      this.iconPath = new vscode.ThemeIcon("references");
+      this.tooltip = `Linked from ${this.label}`;
+
+      // Open the linking note at the link
+      this.command = {
+        command: "vscode.open",
+        title: "Open Link Source",
+        arguments: [sourceUri, { selection: link.range }],
+      };
     } else if (contextValue === "message") {
       this.label = (linkInfo as any).label;
       this.iconPath = new vscode.ThemeIcon("info");
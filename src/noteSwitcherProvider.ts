@@ -0,0 +1,272 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { DatabaseService, FileMetadata } from "./indexing/dbService";
+import { QueryEngine } from "./query/queryEngine";
+import { TemplateProvider } from "./templateProvider";
+import { FuzzyMatcher } from "./utils/fuzzyMatcher";
+import { PathResolver } from "./utils/pathResolver";
+
+const RECENT_NOTES_KEY = "typst-oxide.recentNotes";
+const MAX_RECENT_NOTES = 50;
+const MAX_ITEMS = 100;
+// Bonus of the most recently used note, decreasing down the recent list
+const RECENCY_BONUS = 10;
+// Headings rank below notes matching as well
+const HEADING_PENALTY = 2;
+
+interface NoteSwitcherItem extends vscode.QuickPickItem {
+  filePath?: string;
+  position?: { line: number; character: number };
+  // Name of the note to create, for the create-on-miss entry
+  create?: string;
+}
+
+/**
+ * Jumps to a note by fuzzy matching its title, aliases, file name or
+ * headings, favouring recently used notes, and creates the note from the
+ * default template when nothing matches
+ */
+export class NoteSwitcherProvider {
+  constructor(
+    private context: vscode.ExtensionContext,
+    private templateProvider: TemplateProvider
+  ) {}
+
+  register(): void {
+    this.context.subscriptions.push(
+      vscode.commands.registerCommand("typst-oxide.goToNote", () =>
+        this.showSwitcher()
+      ),
+      vscode.window.onDidChangeActiveTextEditor((editor) => {
+        if (editor && PathResolver.isTypstFile(editor.document.uri)) {
+          this.addRecentNote(editor.document.uri.fsPath);
+        }
+      })
+    );
+  }
+
+  /**
+   * Shows the switcher over the indexed notes (with unsaved changes)
+   */
+  async showSwitcher(): Promise<void> {
+    let files: FileMetadata[];
+    try {
+      files = await DatabaseService.getInstance().getAllFiles();
+    } catch (error) {
+      console.error("Failed to load notes:", error);
+      vscode.window.showErrorMessage(`Failed to load notes: ${error}`);
+      return;
+    }
+
+    const quickPick = vscode.window.createQuickPick<NoteSwitcherItem>();
+    quickPick.title = "Go to Note";
+    quickPick.placeholder = "Search notes by title, alias, file name or heading";
+    // Items are ranked here, not filtered by the quick pick
+    quickPick.matchOnDescription = false;
+    quickPick.matchOnDetail = false;
+
+    quickPick.items = this.getItems(files, "");
+    quickPick.onDidChangeValue((value) => {
+      quickPick.items = this.getItems(files, value);
+    });
+    quickPick.onDidAccept(async () => {
+      const item = quickPick.selectedItems[0] ?? quickPick.activeItems[0];
+      if (!item) {
+        return;
+      }
+      quickPick.hide();
+      if (item.create !== undefined) {
+        await this.createNote(item.create);
+      } else if (item.filePath) {
+        await this.openNote(vscode.Uri.file(item.filePath), item.position);
+      }
+    });
+    quickPick.onDidHide(() => quickPick.dispose());
+    quickPick.show();
+  }
+
+  /**
+   * Ranks the notes and headings matching a query. Without a query, recent
+   * notes come first; unless a note is named or titled exactly as the
+   * query, the last item creates the note.
+   */
+  private getItems(files: FileMetadata[], query: string): NoteSwitcherItem[] {
+    const recent = this.getRecentNotes();
+    const recencyBonus = (filePath: string) => {
+      const index = recent.indexOf(filePath);
+      return index === -1
+        ? 0
+        : (RECENCY_BONUS * (recent.length - index)) / recent.length;
+    };
+
+    if (query.trim() === "") {
+      return files
+        .map((file) => ({ file, bonus: recencyBonus(file.filePath) }))
+        .sort(
+          (a, b) =>
+            b.bonus - a.bonus ||
+            QueryEngine.getTitle(a.file).localeCompare(QueryEngine.getTitle(b.file))
+        )
+        .slice(0, MAX_ITEMS)
+        .map(({ file }) => this.toNoteItem(file));
+    }
+
+    const ranked: Array<{ item: NoteSwitcherItem; score: number }> = [];
+    for (const file of files) {
+      const bonus = recencyBonus(file.filePath);
+      const title = QueryEngine.getTitle(file);
+      const names = [title, path.basename(file.filePath, ".typ"), ...file.aliases];
+
+      let best: { score: number; name: string } | undefined;
+      for (const name of names) {
+        const score = FuzzyMatcher.score(query, name);
+        if (score !== undefined && (!best || score > best.score)) {
+          best = { score, name };
+        }
+      }
+      if (best) {
+        const item = this.toNoteItem(file);
+        if (file.aliases.includes(best.name) && best.name !== title) {
+          item.detail = `Alias: ${best.name}`;
+        }
+        ranked.push({ item, score: best.score + bonus });
+      }
+
+      for (const heading of file.headings) {
+        const score = FuzzyMatcher.score(query, heading.text);
+        if (score !== undefined) {
+          ranked.push({
+            item: {
+              label: heading.text,
+              description: title,
+              iconPath: new vscode.ThemeIcon("symbol-string"),
+              alwaysShow: true,
+              filePath: file.filePath,
+              position: heading.position,
+            },
+            score: score + bonus - HEADING_PENALTY,
+          });
+        }
+      }
+    }
+
+    const items = ranked
+      .sort((a, b) => b.score - a.score || a.item.label.localeCompare(b.item.label))
+      .slice(0, MAX_ITEMS)
+      .map(({ item }) => item);
+
+    const name = query.trim();
+    const exists = files.some(
+      (file) =>
+        QueryEngine.getTitle(file) === name ||
+        path.basename(file.filePath, ".typ") === name
+    );
+    if (!exists) {
+      items.push({
+        label: `Create note '${name}'`,
+        description: "from the default template",
+        iconPath: new vscode.ThemeIcon("new-file"),
+        alwaysShow: true,
+        create: name,
+      });
+    }
+    return items;
+  }
+
+  private toNoteItem(file: FileMetadata): NoteSwitcherItem {
+    return {
+      label: QueryEngine.getTitle(file),
+      description: PathResolver.getWorkspaceRelativePath(
+        vscode.Uri.file(file.filePath)
+      ),
+      iconPath: new vscode.ThemeIcon("file"),
+      // Keep every ranked item, whatever the quick pick would match
+      alwaysShow: true,
+      filePath: file.filePath,
+    };
+  }
+
+  /**
+   * Creates a note named after the query, next to the active note (or at
+   * the root of the first repository, or of the active note's repository
+   * for a path starting with "/"), and fills it from the default template
+   */
+  private async createNote(name: string): Promise<void> {
+    const activeUri = vscode.window.activeTextEditor?.document.uri;
+    const activeNote =
+      activeUri &&
+      PathResolver.isTypstFile(activeUri) &&
+      DatabaseService.getInstance().hasIndexFor(activeUri.fsPath)
+        ? activeUri
+        : undefined;
+    const root = activeNote
+      ? PathResolver.getRepositoryRoot(activeNote)
+      : PathResolver.getRepositoryFolders()[0]?.uri.fsPath;
+    if (!root) {
+      vscode.window.showErrorMessage("Open a Typst Oxide repository to create notes");
+      return;
+    }
+
+    const base =
+      name.startsWith("/") || !activeNote ? root : path.dirname(activeNote.fsPath);
+    const filePath = path.resolve(
+      base,
+      PathResolver.ensureTypstExtension(name.replace(/^\/+/, ""))
+    );
+    if (!filePath.startsWith(root + path.sep)) {
+      vscode.window.showErrorMessage(`Cannot create "${name}" outside the repository`);
+      return;
+    }
+
+    const uri = vscode.Uri.file(filePath);
+    try {
+      if (!(await PathResolver.fileExists(uri))) {
+        await vscode.workspace.fs.createDirectory(
+          vscode.Uri.file(path.dirname(filePath))
+        );
+        await vscode.workspace.fs.writeFile(uri, new Uint8Array());
+        await this.templateProvider.applyTemplate(uri);
+      }
+      await this.openNote(uri);
+    } catch (error) {
+      console.error("Failed to create note:", error);
+      vscode.window.showErrorMessage(`Failed to create note: ${error}`);
+    }
+  }
+
+  private async openNote(
+    uri: vscode.Uri,
+    position?: { line: number; character: number }
+  ): Promise<void> {
+    try {
+      const document = await vscode.workspace.openTextDocument(uri);
+      const target = position
+        ? new vscode.Position(position.line, position.character)
+        : undefined;
+      await vscode.window.showTextDocument(document, {
+        selection: target ? new vscode.Range(target, target) : undefined,
+      });
+    } catch (error) {
+      console.error("Failed to open note:", error);
+      vscode.window.showErrorMessage(`Failed to open ${uri.fsPath}: ${error}`);
+    }
+  }
+
+  private getRecentNotes(): string[] {
+    return this.context.workspaceState.get<string[]>(RECENT_NOTES_KEY, []);
+  }
+
+  /**
+   * Moves a note to the front of the recently used notes
+   */
+  private addRecentNote(filePath: string): void {
+    const recent = this.getRecentNotes().filter(
+      (recentPath) => recentPath !== filePath
+    );
+    recent.unshift(filePath);
+    this.context.workspaceState.update(
+      RECENT_NOTES_KEY,
+      recent.slice(0, MAX_RECENT_NOTES)
+    );
+  }
+}
@@ -0,0 +1,164 @@
+import * as vscode from "vscode";
+import { PathResolver } from "../utils/pathResolver";
+import { QueryEngine, QueryResult } from "./queryEngine";
+
+export interface QueryBlock {
+  query: string;
+  // Line of the `// oxide-query:` comment
+  line: number;
+  indent: string;
+  // Marker lines around the materialized list, when there is one
+  results?: { beginLine: number; endLine: number };
+  // Why the materialized list can't be updated, e.g. a missing end marker
+  error?: string;
+}
+
+// Matches a query comment: "// oxide-query: FROM #paper SORT date"
+const QUERY_REGEX = /^(\s*)\/\/\s*oxide-query:(.*)$/;
+const BEGIN_MARKER = "// oxide-query-results: begin";
+const END_MARKER = "// oxide-query-results: end";
+
+export class QueryBlocks {
+  /**
+   * Finds the query comments of a document and the materialized lists that
+   * directly follow them
+   */
+  static findBlocks(document: vscode.TextDocument): QueryBlock[] {
+    const blocks: QueryBlock[] = [];
+
+    for (let line = 0; line < document.lineCount; line++) {
+      const match = document.lineAt(line).text.match(QUERY_REGEX);
+      if (!match) {
+        continue;
+      }
+
+      const block: QueryBlock = {
+        query: match[2].trim(),
+        line,
+        indent: match[1],
+      };
+      blocks.push(block);
+
+      if (!this.isMarker(document, line + 1, BEGIN_MARKER)) {
+        continue;
+      }
+      for (let endLine = line + 2; endLine < document.lineCount; endLine++) {
+        if (this.isMarker(document, endLine, END_MARKER)) {
+          block.results = { beginLine: line + 1, endLine };
+          line = endLine;
+          break;
+        }
+        if (
+          this.isMarker(document, endLine, BEGIN_MARKER) ||
+          QUERY_REGEX.test(document.lineAt(endLine).text)
+        ) {
+          break;
+        }
+      }
+      if (!block.results) {
+        block.error = `Missing "${END_MARKER}" after the results of this query`;
+      }
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Renders results as the Typst list of wiki links kept between the
+   * markers, titled notes using their title as the link alias. Notes of
+   * other repositories get cross-folder links.
+   */
+  static renderList(
+    documentUri: vscode.Uri,
+    block: QueryBlock,
+    results: QueryResult[]
+  ): string[] {
+    const root = PathResolver.getRepositoryRoot(documentUri);
+    return results.map((result) => {
+      const uri = vscode.Uri.file(result.file.filePath);
+      const linkPath =
+        (PathResolver.getRepositoryRoot(uri) !== root &&
+          PathResolver.getCrossFolderLinkPath(uri)) ||
+        PathResolver.getRootRelativeLinkPath(uri);
+      // "]" and "|" would end the alias early
+      const title = QueryEngine.getTitle(result.file)
+        .replace(/[\]|]/g, " ")
+        .replace(/\s+/g, " ")
+        .trim();
+      const alias = typeof result.file.metadata?.title === "string" && title
+        ? `|${title}`
+        : "";
+      return `${block.indent}- [[${linkPath}${alias}]]`;
+    });
+  }
+
+  /**
+   * Gets the edit that writes the results of a block into the document:
+   * only the lines between the markers are replaced, and the markers are
+   * added below the query the first time
+   */
+  static getMaterializeEdit(
+    document: vscode.TextDocument,
+    block: QueryBlock,
+    results: QueryResult[]
+  ): vscode.TextEdit {
+    const eol = document.eol === vscode.EndOfLine.CRLF ? "\r\n" : "\n";
+    const list = this.renderList(document.uri, block, results);
+
+    if (!block.results) {
+      const lines = [
+        `${block.indent}${BEGIN_MARKER}`,
+        ...list,
+        `${block.indent}${END_MARKER}`,
+      ];
+      return vscode.TextEdit.insert(
+        document.lineAt(block.line).range.end,
+        eol + lines.join(eol)
+      );
+    }
+
+    const { beginLine, endLine } = block.results;
+    const range = new vscode.Range(
+      document.lineAt(beginLine).range.end,
+      document.lineAt(endLine).range.start
+    );
+    return vscode.TextEdit.replace(
+      range,
+      list.length > 0 ? eol + list.join(eol) + eol : eol
+    );
+  }
+
+  /**
+   * Checks if the materialized list of a block matches the results
+   */
+  static isUpToDate(
+    document: vscode.TextDocument,
+    block: QueryBlock,
+    results: QueryResult[]
+  ): boolean {
+    if (!block.results) {
+      return false;
+    }
+
+    const current: string[] = [];
+    for (let line = block.results.beginLine + 1; line < block.results.endLine; line++) {
+      current.push(document.lineAt(line).text);
+    }
+    const list = this.renderList(document.uri, block, results);
+    return (
+      current.length === list.length &&
+      current.every((line, index) => line === list[index])
+    );
+  }
+
+  private static isMarker(
+    document: vscode.TextDocument,
+    line: number,
+    marker: string
+  ): boolean {
+    return (
+      line < document.lineCount &&
+      document.lineAt(line).text.trim().replace(/\s+/g, " ") === marker
+    );
+  }
+}
@@ -0,0 +1,451 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { DatabaseService, FileMetadata } from "../indexing/dbService";
+import { PathResolver } from "../utils/pathResolver";
+import { TagScanner } from "../utils/tagScanner";
+import {
+  ComparisonOperator,
+  Query,
+  QueryExpression,
+  QueryOperand,
+  QueryParser,
+} from "./queryParser";
+
+export interface QueryResult {
+  file: FileMetadata;
+  // Path relative to the repository root, e.g. "projects/alpha.typ"
+  relativePath: string;
+}
+
+/**
+ * Link predicates resolved once per query: targets to resolved paths, and
+ * sources to the paths they link to (all normalized for comparison)
+ */
+interface LinkContext {
+  targets: Map<string, string>;
+  outlinks: Map<string, Set<string>>;
+  // Resolved targets and sources, whose changes affect which notes match
+  linkedNotes: Set<string>;
+}
+
+export class QueryEngine {
+  /**
+   * Runs a query over the indexed notes (with unsaved changes). Link paths in
+   * the query resolve as if written in `contextUri`, e.g. the active note.
+   */
+  static async run(
+    source: string | Query,
+    contextUri: vscode.Uri
+  ): Promise<QueryResult[]> {
+    const query = typeof source === "string" ? QueryParser.parse(source) : source;
+    const dbService = DatabaseService.getInstance();
+    const links = await this.resolveLinks(query, contextUri);
+    const roots = this.getRepositoryRoots();
+
+    const results = (await dbService.getAllFiles())
+      .map((file) => ({
+        file,
+        relativePath: this.getRelativePath(file.filePath, roots),
+      }))
+      .filter((result) => this.matchesQuery(query, result, links));
+
+    results.sort((a, b) => {
+      for (const sort of query.sort) {
+        const order = this.compareForSort(
+          this.getFieldValue(a, sort.field),
+          this.getFieldValue(b, sort.field),
+          sort.descending
+        );
+        if (order !== 0) {
+          return order;
+        }
+      }
+      return a.relativePath.localeCompare(b.relativePath);
+    });
+
+    return query.limit !== undefined ? results.slice(0, query.limit) : results;
+  }
+
+  /**
+   * Checks if changes to some notes may change the results of a query: they
+   * match it now, or are the target or source of one of its link
+   * predicates. Notes that matched before are for the caller to check.
+   */
+  static async isAffectedBy(
+    source: string | Query,
+    filePaths: string[],
+    contextUri: vscode.Uri
+  ): Promise<boolean> {
+    const query = typeof source === "string" ? QueryParser.parse(source) : source;
+    const dbService = DatabaseService.getInstance();
+    const links = await this.resolveLinks(query, contextUri);
+    const roots = this.getRepositoryRoots();
+
+    for (const filePath of filePaths) {
+      if (links.linkedNotes.has(PathResolver.normalizeForComparison(filePath))) {
+        return true;
+      }
+      const file = await dbService.getFile(filePath);
+      if (
+        file &&
+        this.matchesQuery(
+          query,
+          { file, relativePath: this.getRelativePath(filePath, roots) },
+          links
+        )
+      ) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Gets a field of a note: `file.path`, `file.name`, `file.folder`,
+   * `file.mtime`, `file.aliases` and `file.tags`, or a metadata value such as
+   * `status` or `project.status`
+   */
+  static getFieldValue(result: QueryResult, field: string[]): unknown {
+    if (field[0] === "file" && field.length === 2) {
+      switch (field[1]) {
+        case "path":
+          return result.relativePath;
+        case "name":
+          return path.basename(result.file.filePath).replace(/\.typ$/, "");
+        case "folder":
+          return path.posix.dirname(result.relativePath).replace(/^\.$/, "");
+        case "mtime":
+          return result.file.lastModified;
+        case "aliases":
+          return result.file.aliases;
+        case "tags":
+          return result.file.tags ?? [];
+      }
+    }
+
+    let value: unknown = result.file.metadata;
+    for (const key of field) {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        return undefined;
+      }
+      value = (value as Record<string, unknown>)[key];
+    }
+    return value;
+  }
+
+  /**
+   * Gets the title of a note from its metadata, or else its file name
+   */
+  static getTitle(file: FileMetadata): string {
+    const title = file.metadata?.title;
+    return typeof title === "string" && title.trim() !== ""
+      ? title.trim()
+      : path.basename(file.filePath).replace(/\.typ$/, "");
+  }
+
+  /**
+   * Formats a field value for display; missing values are empty
+   */
+  static formatValue(value: unknown): string {
+    if (value === undefined || value === null) {
+      return "";
+    }
+    return typeof value === "object" ? JSON.stringify(value) : String(value);
+  }
+
+  private static matchesQuery(
+    query: Query,
+    result: QueryResult,
+    links: LinkContext
+  ): boolean {
+    return (
+      (!query.from || this.matches(query.from, result, links)) &&
+      (!query.where || this.matches(query.where, result, links))
+    );
+  }
+
+  private static matches(
+    expression: QueryExpression,
+    result: QueryResult,
+    links: LinkContext
+  ): boolean {
+    switch (expression.type) {
+      case "and":
+        return (
+          this.matches(expression.left, result, links) &&
+          this.matches(expression.right, result, links)
+        );
+      case "or":
+        return (
+          this.matches(expression.left, result, links) ||
+          this.matches(expression.right, result, links)
+        );
+      case "not":
+        return !this.matches(expression.operand, result, links);
+      case "compare":
+        return this.compare(
+          expression.operator,
+          this.getOperandValue(expression.left, result),
+          this.getOperandValue(expression.right, result)
+        );
+      case "truthy":
+        return this.isTruthy(this.getOperandValue(expression.operand, result));
+      case "folder":
+        return this.isInFolder(result, expression.path);
+      case "tag": {
+        // A tag also matches its nested tags: #project matches #project/alpha
+        const tag = TagScanner.normalize(expression.tag);
+        return (result.file.tags ?? []).some((fileTag) =>
+          TagScanner.isSameOrChild(fileTag, tag)
+        );
+      }
+      case "links-to": {
+        const target = links.targets.get(expression.target);
+        return result.file.wikilinks.some(
+          (link) =>
+            link.resolvedTarget !== undefined &&
+            PathResolver.normalizeForComparison(link.resolvedTarget) === target
+        );
+      }
+      case "linked-from":
+        return (
+          links.outlinks
+            .get(expression.source)
+            ?.has(PathResolver.normalizeForComparison(result.file.filePath)) ??
+          false
+        );
+    }
+  }
+
+  private static getOperandValue(
+    operand: QueryOperand,
+    result: QueryResult
+  ): unknown {
+    return operand.type === "literal"
+      ? operand.value
+      : this.getFieldValue(result, operand.path);
+  }
+
+  /**
+   * Compares two values. Strings compare ignoring case, and an array field
+   * matches when any of its items does (`alias = "x"`).
+   */
+  private static compare(
+    operator: ComparisonOperator,
+    left: unknown,
+    right: unknown
+  ): boolean {
+    switch (operator) {
+      case "=":
+        return this.valuesEqual(left, right);
+      case "!=":
+        return !this.valuesEqual(left, right);
+      case "contains":
+        if (Array.isArray(left)) {
+          return left.some((item) => this.valuesEqual(item, right));
+        }
+        return (
+          typeof left === "string" &&
+          right !== null &&
+          right !== undefined &&
+          this.toKey(left).includes(this.toKey(String(right)))
+        );
+    }
+
+    const items = Array.isArray(left) ? left : [left];
+    return items.some((item) => {
+      const order = this.compareValues(item, right);
+      if (order === undefined) {
+        return false;
+      }
+      switch (operator) {
+        case "<":
+          return order < 0;
+        case "<=":
+          return order <= 0;
+        case ">":
+          return order > 0;
+        case ">=":
+          return order >= 0;
+      }
+    });
+  }
+
+  private static valuesEqual(left: unknown, right: unknown): boolean {
+    if (left === undefined || left === null) {
+      return right === undefined || right === null;
+    }
+    if (Array.isArray(left)) {
+      return left.some((item) => this.valuesEqual(item, right));
+    }
+    return this.compareValues(left, right) === 0;
+  }
+
+  /**
+   * Orders two values: numbers numerically, strings ignoring case with digit
+   * runs compared as numbers (so ISO dates order by date), and numbers such
+   * as `file.mtime` against date strings. Undefined when they don't compare.
+   */
+  private static compareValues(left: unknown, right: unknown): number | undefined {
+    if (typeof left === "number" && typeof right === "number") {
+      return left - right;
+    }
+    if (typeof left === "boolean" && typeof right === "boolean") {
+      return Number(left) - Number(right);
+    }
+    if (typeof left === "string" && typeof right === "string") {
+      return this.toKey(left).localeCompare(this.toKey(right), undefined, {
+        numeric: true,
+      });
+    }
+    if (typeof left === "number" && typeof right === "string") {
+      const number = this.toNumber(right);
+      return number === undefined ? undefined : left - number;
+    }
+    if (typeof left === "string" && typeof right === "number") {
+      const number = this.toNumber(left);
+      return number === undefined ? undefined : number - right;
+    }
+    return undefined;
+  }
+
+  /**
+   * Orders values for SORT, keeping notes without the field last
+   */
+  private static compareForSort(
+    left: unknown,
+    right: unknown,
+    descending: boolean
+  ): number {
+    const leftMissing = left === undefined || left === null;
+    const rightMissing = right === undefined || right === null;
+    if (leftMissing || rightMissing) {
+      return Number(leftMissing) - Number(rightMissing);
+    }
+
+    const order =
+      this.compareValues(left, right) ??
+      this.toKey(String(left)).localeCompare(this.toKey(String(right)));
+    return descending ? -order : order;
+  }
+
+  private static toNumber(value: string): number | undefined {
+    const number = Number(value);
+    if (value.trim() !== "" && !isNaN(number)) {
+      return number;
+    }
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : date;
+  }
+
+  private static toKey(value: string): string {
+    return value.normalize("NFC").toLowerCase();
+  }
+
+  private static isTruthy(value: unknown): boolean {
+    if (Array.isArray(value)) {
+      return value.length > 0;
+    }
+    return value !== undefined && value !== null && value !== false && value !== 0 && value !== "";
+  }
+
+  /**
+   * Checks if a note is in a folder (or is the note) given relative to its
+   * repository root
+   */
+  private static isInFolder(result: QueryResult, folder: string): boolean {
+    const uri = vscode.Uri.file(result.file.filePath);
+    const prefix = PathResolver.normalizeForComparison(
+      folder.replace(/^\.?\/+|\/+$/g, ""),
+      uri
+    );
+    const relativePath = PathResolver.normalizeForComparison(
+      result.relativePath,
+      uri
+    );
+
+    return (
+      prefix === "" ||
+      relativePath.startsWith(`${prefix}/`) ||
+      relativePath === prefix ||
+      relativePath === `${prefix}.typ`
+    );
+  }
+
+  /**
+   * Lists the repository roots, longest first, to look up the root of every
+   * note of a query without going through the workspace each time
+   */
+  private static getRepositoryRoots(): string[] {
+    return PathResolver.getRepositoryFolders()
+      .map((folder) => folder.uri.fsPath)
+      .sort((a, b) => b.length - a.length);
+  }
+
+  private static getRelativePath(filePath: string, roots: string[]): string {
+    const root =
+      roots.find((root) => filePath.startsWith(root + path.sep)) ??
+      PathResolver.getRepositoryRoot(vscode.Uri.file(filePath));
+    return path.relative(root, filePath).replace(/\\/g, "/");
+  }
+
+  /**
+   * Resolves the link paths of `links-to` and `linked-from` predicates, and
+   * reads what the sources of `linked-from` link to
+   */
+  private static async resolveLinks(
+    query: Query,
+    contextUri: vscode.Uri
+  ): Promise<LinkContext> {
+    const links: LinkContext = {
+      targets: new Map(),
+      outlinks: new Map(),
+      linkedNotes: new Set(),
+    };
+    const dbService = DatabaseService.getInstance();
+
+    const visit = async (expression?: QueryExpression): Promise<void> => {
+      switch (expression?.type) {
+        case "and":
+        case "or":
+          await visit(expression.left);
+          await visit(expression.right);
+          break;
+        case "not":
+          await visit(expression.operand);
+          break;
+        case "links-to": {
+          const target = PathResolver.normalizeForComparison(
+            PathResolver.resolveLinkTarget(contextUri, expression.target).fsPath
+          );
+          links.targets.set(expression.target, target);
+          links.linkedNotes.add(target);
+          break;
+        }
+        case "linked-from": {
+          const source = PathResolver.resolveLinkTarget(
+            contextUri,
+            expression.source
+          ).fsPath;
+          const file = await dbService.getFile(source);
+          links.linkedNotes.add(PathResolver.normalizeForComparison(source));
+          links.outlinks.set(
+            expression.source,
+            new Set(
+              (file?.wikilinks ?? [])
+                .filter((link) => link.resolvedTarget !== undefined)
+                .map((link) =>
+                  PathResolver.normalizeForComparison(link.resolvedTarget!)
+                )
+            )
+          );
+          break;
+        }
+      }
+    };
+
+    await visit(query.from);
+    await visit(query.where);
+    return links;
+  }
+}
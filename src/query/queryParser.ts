@@ -0,0 +1,414 @@
+export type QueryLiteral = string | number | boolean | null;
+
+export type QueryOperand =
+  | { type: "field"; path: string[] }
+  | { type: "literal"; value: QueryLiteral };
+
+export type ComparisonOperator = "=" | "!=" | "<" | "<=" | ">" | ">=" | "contains";
+
+export type QueryExpression =
+  | { type: "and" | "or"; left: QueryExpression; right: QueryExpression }
+  | { type: "not"; operand: QueryExpression }
+  | {
+      type: "compare";
+      operator: ComparisonOperator;
+      left: QueryOperand;
+      right: QueryOperand;
+    }
+  // A bare field, true when its value is set and not false, 0 or empty
+  | { type: "truthy"; operand: QueryOperand }
+  // Notes under a folder (or the note itself), relative to the repository root
+  | { type: "folder"; path: string }
+  | { type: "tag"; tag: string }
+  // Notes with a link to the target, and notes the source links to
+  | { type: "links-to"; target: string }
+  | { type: "linked-from"; source: string };
+
+export interface QuerySort {
+  field: string[];
+  descending: boolean;
+}
+
+export interface Query {
+  from?: QueryExpression;
+  where?: QueryExpression;
+  sort: QuerySort[];
+  limit?: number;
+}
+
+type TokenType =
+  | "word"
+  | "string"
+  | "number"
+  | "date"
+  | "tag"
+  | "link"
+  | "operator"
+  | "punctuation"
+  | "end";
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+const TOKEN_PATTERNS: [TokenType, RegExp][] = [
+  ["date", /\d{4}-\d{2}-\d{2}(?:T[\d:.]+(?:Z|[+-]\d{2}:\d{2})?)?/y],
+  ["number", /-?(?:\d+\.?\d*|\.\d+)/y],
+  ["word", /[\p{L}_][\p{L}\p{N}_.-]*/uy],
+  ["tag", /#[\p{L}\p{N}_/-]+/uy],
+  ["link", /\[\[[^\]]*\]\]/y],
+  ["operator", /!=|<=|>=|==|[=<>!-]/y],
+  ["punctuation", /[(),]/y],
+];
+
+const CLAUSES = ["from", "where", "sort", "limit"];
+
+/**
+ * Parses metadata queries such as
+ * `FROM "projects" AND #active WHERE status = "active" SORT date DESC LIMIT 10`.
+ * Every clause is optional but they come in this order; keywords ignore case.
+ * A query starting with conditions is read as if it started with WHERE.
+ */
+export class QueryParser {
+  private tokens: Token[];
+  private index = 0;
+
+  private constructor(private source: string) {
+    this.tokens = this.tokenize();
+  }
+
+  /**
+   * Parses a query, throwing an error that points at the offending token
+   */
+  static parse(source: string): Query {
+    return new QueryParser(source).parseQuery();
+  }
+
+  private parseQuery(): Query {
+    const query: Query = { sort: [] };
+
+    if (this.acceptKeyword("from")) {
+      query.from = this.parseExpression(true);
+    }
+    const first = this.peek();
+    if (
+      this.acceptKeyword("where") ||
+      (!query.from &&
+        first.type !== "end" &&
+        !CLAUSES.includes(first.value.toLowerCase()))
+    ) {
+      query.where = this.parseExpression(false);
+    }
+    if (this.acceptKeyword("sort")) {
+      do {
+        const field = this.expect("word", "a field to sort by");
+        const descending = this.acceptKeyword("desc");
+        if (!descending) {
+          this.acceptKeyword("asc");
+        }
+        query.sort.push({ field: this.toFieldPath(field), descending });
+      } while (this.acceptPunctuation(","));
+    }
+    if (this.acceptKeyword("limit")) {
+      const limit = this.expect("number", "a limit");
+      query.limit = Number(limit.value);
+      if (!Number.isInteger(query.limit) || query.limit < 0) {
+        throw this.error("The limit must be a positive whole number", limit);
+      }
+    }
+
+    const next = this.peek();
+    if (next.type !== "end") {
+      const clause = next.value.toLowerCase();
+      throw this.error(
+        next.type === "word" && CLAUSES.includes(clause)
+          ? `${clause.toUpperCase()} is out of place; clauses go FROM, WHERE, SORT, LIMIT`
+          : `Unexpected "${next.value}"`,
+        next
+      );
+    }
+    return query;
+  }
+
+  /**
+   * Parses `a OR b`, `a AND b` and `NOT a` (also `!a`, and `-a` in FROM),
+   * with AND binding tighter than OR
+   */
+  private parseExpression(inFrom: boolean): QueryExpression {
+    let left = this.parseAnd(inFrom);
+    while (this.acceptKeyword("or")) {
+      left = { type: "or", left, right: this.parseAnd(inFrom) };
+    }
+    return left;
+  }
+
+  private parseAnd(inFrom: boolean): QueryExpression {
+    let left = this.parseNot(inFrom);
+    while (this.acceptKeyword("and")) {
+      left = { type: "and", left, right: this.parseNot(inFrom) };
+    }
+    return left;
+  }
+
+  private parseNot(inFrom: boolean): QueryExpression {
+    if (
+      this.acceptKeyword("not") ||
+      this.acceptOperator("!") ||
+      (inFrom && this.acceptOperator("-"))
+    ) {
+      return { type: "not", operand: this.parseNot(inFrom) };
+    }
+    return this.parseCondition(inFrom);
+  }
+
+  private parseCondition(inFrom: boolean): QueryExpression {
+    const token = this.peek();
+
+    if (this.acceptPunctuation("(")) {
+      const expression = this.parseExpression(inFrom);
+      this.expectPunctuation(")");
+      return expression;
+    }
+    if (token.type === "tag") {
+      this.next();
+      return { type: "tag", tag: token.value.slice(1) };
+    }
+    if (token.type === "link") {
+      this.next();
+      return { type: "links-to", target: this.toLinkPath(token.value) };
+    }
+    if (inFrom && token.type === "string") {
+      this.next();
+      return { type: "folder", path: token.value };
+    }
+    const following = this.peek(1);
+    if (
+      token.type === "word" &&
+      following.type === "punctuation" &&
+      following.value === "("
+    ) {
+      return this.parseFunction();
+    }
+    if (inFrom) {
+      throw this.error(
+        `Expected a folder, #tag or [[link]] but found "${token.value || "end of query"}"`,
+        token
+      );
+    }
+
+    const left = this.parseOperand();
+    const operator = this.parseOperator();
+    if (!operator) {
+      return { type: "truthy", operand: left };
+    }
+    return { type: "compare", operator, left, right: this.parseOperand() };
+  }
+
+  /**
+   * Parses `linksTo(target)`, `linkedFrom(source)` (also spelled
+   * `outgoing`) and `tagged(tag)`, whose argument is a string or [[link]]
+   */
+  private parseFunction(): QueryExpression {
+    const name = this.next();
+    this.expectPunctuation("(");
+    const argument = this.next();
+    if (argument.type !== "string" && argument.type !== "link" && argument.type !== "tag") {
+      throw this.error(`${name.value}() takes a string or [[link]]`, argument);
+    }
+    this.expectPunctuation(")");
+
+    const value =
+      argument.type === "link"
+        ? this.toLinkPath(argument.value)
+        : argument.value.replace(/^#/, "");
+    switch (name.value.toLowerCase()) {
+      case "linksto":
+        return { type: "links-to", target: value };
+      case "linkedfrom":
+      case "outgoing":
+        return { type: "linked-from", source: value };
+      case "tagged":
+        return { type: "tag", tag: value };
+      default:
+        throw this.error(`Unknown function ${name.value}()`, name);
+    }
+  }
+
+  private parseOperand(): QueryOperand {
+    const token = this.next();
+    switch (token.type) {
+      case "word": {
+        const keyword = token.value.toLowerCase();
+        if (keyword === "true" || keyword === "false") {
+          return { type: "literal", value: keyword === "true" };
+        }
+        if (keyword === "null" || keyword === "none") {
+          return { type: "literal", value: null };
+        }
+        return { type: "field", path: this.toFieldPath(token) };
+      }
+      case "string":
+      case "date":
+        return { type: "literal", value: token.value };
+      case "number":
+        return { type: "literal", value: Number(token.value) };
+      case "tag":
+        return { type: "literal", value: token.value.slice(1) };
+      case "link":
+        return { type: "literal", value: this.toLinkPath(token.value) };
+      default:
+        throw this.error(
+          `Expected a field or value but found "${token.value || "end of query"}"`,
+          token
+        );
+    }
+  }
+
+  private parseOperator(): ComparisonOperator | undefined {
+    const token = this.peek();
+    if (token.type === "operator" && token.value !== "!" && token.value !== "-") {
+      this.next();
+      return token.value === "==" ? "=" : (token.value as ComparisonOperator);
+    }
+    if (this.acceptKeyword("contains")) {
+      return "contains";
+    }
+    return undefined;
+  }
+
+  private tokenize(): Token[] {
+    const tokens: Token[] = [];
+    let position = 0;
+
+    while (position < this.source.length) {
+      const char = this.source[position];
+      if (/\s/.test(char)) {
+        position++;
+        continue;
+      }
+      if (char === '"' || char === "'") {
+        const { value, end } = this.readString(position);
+        tokens.push({ type: "string", value, position });
+        position = end;
+        continue;
+      }
+
+      const match = this.matchToken(position);
+      if (!match) {
+        throw new Error(`Unexpected "${char}" at position ${position + 1}`);
+      }
+      tokens.push(match);
+      position += match.value.length;
+    }
+
+    tokens.push({ type: "end", value: "", position });
+    return tokens;
+  }
+
+  private matchToken(position: number): Token | undefined {
+    for (const [type, pattern] of TOKEN_PATTERNS) {
+      pattern.lastIndex = position;
+      const match = pattern.exec(this.source);
+      if (match) {
+        return { type, value: match[0], position };
+      }
+    }
+    return undefined;
+  }
+
+  private readString(start: number): { value: string; end: number } {
+    const quote = this.source[start];
+    let value = "";
+    let position = start + 1;
+
+    while (position < this.source.length) {
+      const char = this.source[position++];
+      if (char === quote) {
+        return { value, end: position };
+      }
+      value += char === "\\" ? this.source[position++] ?? "" : char;
+    }
+    throw new Error(`Unterminated string at position ${start + 1}`);
+  }
+
+  private toFieldPath(token: Token): string[] {
+    const path = token.value.split(".");
+    if (path.some((segment) => segment === "")) {
+      throw this.error(`Invalid field "${token.value}"`, token);
+    }
+    return path;
+  }
+
+  /**
+   * Gets the note path of a `[[path#heading|alias]]` token
+   */
+  private toLinkPath(link: string): string {
+    return link.slice(2, -2).split(/[#:|]/)[0].trim();
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.type !== "end") {
+      this.index++;
+    }
+    return token;
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    const token = this.peek();
+    if (token.type === "word" && token.value.toLowerCase() === keyword) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private acceptOperator(value: string): boolean {
+    const token = this.peek();
+    if (token.type === "operator" && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private acceptPunctuation(value: string): boolean {
+    const token = this.peek();
+    if (token.type === "punctuation" && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(type: TokenType, description: string): Token {
+    const token = this.peek();
+    if (token.type !== type) {
+      throw this.error(
+        `Expected ${description} but found "${token.value || "end of query"}"`,
+        token
+      );
+    }
+    return this.next();
+  }
+
+  private expectPunctuation(value: string): void {
+    if (!this.acceptPunctuation(value)) {
+      const token = this.peek();
+      throw this.error(
+        `Expected "${value}" but found "${token.value || "end of query"}"`,
+        token
+      );
+    }
+  }
+
+  private error(message: string, token: Token): Error {
+    return new Error(`${message} at position ${token.position + 1}`);
+  }
+}
@@ -0,0 +1,261 @@
+import * as vscode from "vscode";
+import { QueryBlock, QueryBlocks } from "./query/queryBlocks";
+import { QueryEngine, QueryResult } from "./query/queryEngine";
+import { QueryParser } from "./query/queryParser";
+import { IndexingService } from "./services/indexingService";
+
+// Coalesces the refreshes caused by a burst of index updates
+const REFRESH_DELAY = 500;
+// Rows shown in the hover table of a query
+const MAX_HOVER_ROWS = 20;
+
+/**
+ * Shows the results of `// oxide-query:` comments inline, as CodeLenses and
+ * a hover table, and writes them into the note as a list of wiki links
+ */
+export class QueryBlockProvider
+  implements vscode.CodeLensProvider, vscode.HoverProvider
+{
+  private onDidChangeCodeLensesEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChangeCodeLenses = this.onDidChangeCodeLensesEmitter.event;
+  private refreshTimer: NodeJS.Timeout | undefined;
+  // Results shown in the lenses of each document, by query, kept until an
+  // index update may change them
+  private shownResults = new Map<string, Map<string, QueryResult[]>>();
+  // Files indexed since the last refresh
+  private changedFiles = new Set<string>();
+
+  constructor(private context: vscode.ExtensionContext) {}
+
+  register(): void {
+    const indexingService = IndexingService.getInstance();
+
+    this.context.subscriptions.push(
+      vscode.languages.registerCodeLensProvider({ language: "typst" }, this),
+      vscode.languages.registerHoverProvider({ language: "typst" }, this),
+      vscode.commands.registerCommand(
+        "typst-oxide.materializeQueries",
+        (uri?: vscode.Uri, line?: number) => this.materialize(uri, line)
+      ),
+      indexingService.onDidUpdateFile((uri) => this.scheduleRefresh(uri)),
+      indexingService.onDidChangeOverlay((uri) => this.scheduleRefresh(uri)),
+      vscode.workspace.onDidCloseTextDocument((document) =>
+        this.shownResults.delete(document.uri.toString())
+      ),
+      this.onDidChangeCodeLensesEmitter,
+      { dispose: () => clearTimeout(this.refreshTimer) }
+    );
+  }
+
+  async provideCodeLenses(
+    document: vscode.TextDocument,
+    token: vscode.CancellationToken
+  ): Promise<vscode.CodeLens[]> {
+    const lenses: vscode.CodeLens[] = [];
+    const shown = this.shownResults.get(document.uri.toString());
+    const current = new Map<string, QueryResult[]>();
+
+    for (const block of QueryBlocks.findBlocks(document)) {
+      if (token.isCancellationRequested) {
+        return [];
+      }
+
+      const range = document.lineAt(block.line).range;
+      let results = current.get(block.query) ?? shown?.get(block.query);
+      try {
+        results ??= await QueryEngine.run(block.query, document.uri);
+        current.set(block.query, results);
+      } catch (error) {
+        lenses.push(
+          new vscode.CodeLens(range, {
+            title: `$(error) ${error instanceof Error ? error.message : error}`,
+            command: "",
+          })
+        );
+        continue;
+      }
+
+      lenses.push(
+        new vscode.CodeLens(range, {
+          title: `$(list-unordered) ${results.length} ${
+            results.length === 1 ? "note" : "notes"
+          }`,
+          tooltip: "Show the results in the Query Results view",
+          command: "typst-oxide.runQuery",
+          arguments: [block.query],
+        }),
+        new vscode.CodeLens(range, this.getListCommand(document, block, results))
+      );
+    }
+
+    this.shownResults.set(document.uri.toString(), current);
+    return lenses;
+  }
+
+  /**
+   * Shows the results of a query as a table when hovering its comment
+   */
+  async provideHover(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): Promise<vscode.Hover | undefined> {
+    const block = QueryBlocks.findBlocks(document).find(
+      (block) => block.line === position.line
+    );
+    if (!block) {
+      return undefined;
+    }
+
+    const markdown = new vscode.MarkdownString();
+    try {
+      const query = QueryParser.parse(block.query);
+      const results = await QueryEngine.run(query, document.uri);
+      const fields = query.sort.map((sort) => sort.field);
+
+      markdown.appendMarkdown(
+        `| Note | Path |${fields.map((field) => ` ${this.escape(field.join("."))} |`).join("")}\n`
+      );
+      markdown.appendMarkdown(`|---|---|${fields.map(() => "---|").join("")}\n`);
+      for (const result of results.slice(0, MAX_HOVER_ROWS)) {
+        const link = `[${this.escape(QueryEngine.getTitle(result.file))}](${vscode.Uri.file(result.file.filePath)})`;
+        const values = fields.map(
+          (field) =>
+            ` ${this.escape(QueryEngine.formatValue(QueryEngine.getFieldValue(result, field)))} |`
+        );
+        markdown.appendMarkdown(
+          `| ${link} | ${this.escape(result.relativePath)} |${values.join("")}\n`
+        );
+      }
+
+      if (results.length === 0) {
+        markdown.appendMarkdown("\n*No matching notes*");
+      } else if (results.length > MAX_HOVER_ROWS) {
+        markdown.appendMarkdown(
+          `\n*…and ${results.length - MAX_HOVER_ROWS} more*`
+        );
+      }
+    } catch (error) {
+      markdown.appendMarkdown("**Query error:** ");
+      markdown.appendText(error instanceof Error ? error.message : String(error));
+    }
+
+    return new vscode.Hover(markdown, document.lineAt(block.line).range);
+  }
+
+  /**
+   * Writes the results of a query (or of every query in the document) as a
+   * list of wiki links between markers below it. Only the text between the
+   * markers changes, so the list can be edited around and stays compiled.
+   */
+  async materialize(uri?: vscode.Uri, line?: number): Promise<void> {
+    const document = uri
+      ? await vscode.workspace.openTextDocument(uri)
+      : vscode.window.activeTextEditor?.document;
+    if (!document || document.languageId !== "typst") {
+      vscode.window.showErrorMessage("Open a Typst note with a query first");
+      return;
+    }
+
+    const blocks = QueryBlocks.findBlocks(document).filter(
+      (block) => line === undefined || block.line === line
+    );
+    if (blocks.length === 0) {
+      vscode.window.showInformationMessage(
+        'No "// oxide-query:" comments found in this note'
+      );
+      return;
+    }
+
+    const edits: vscode.TextEdit[] = [];
+    for (const block of blocks) {
+      if (block.error) {
+        vscode.window.showErrorMessage(
+          `Query on line ${block.line + 1}: ${block.error}`
+        );
+        continue;
+      }
+
+      try {
+        const results = await QueryEngine.run(block.query, document.uri);
+        edits.push(QueryBlocks.getMaterializeEdit(document, block, results));
+      } catch (error) {
+        console.error("Failed to run query:", error);
+        vscode.window.showErrorMessage(
+          `Query on line ${block.line + 1}: ${error instanceof Error ? error.message : error}`
+        );
+      }
+    }
+
+    if (edits.length > 0) {
+      const workspaceEdit = new vscode.WorkspaceEdit();
+      workspaceEdit.set(document.uri, edits);
+      await vscode.workspace.applyEdit(workspaceEdit);
+    }
+  }
+
+  /**
+   * Gets the CodeLens command that writes or updates the list of a query
+   */
+  private getListCommand(
+    document: vscode.TextDocument,
+    block: QueryBlock,
+    results: QueryResult[]
+  ): vscode.Command {
+    if (block.error) {
+      return { title: `$(warning) ${block.error}`, command: "" };
+    }
+    if (QueryBlocks.isUpToDate(document, block, results)) {
+      return { title: "$(check) List up to date", command: "" };
+    }
+    return {
+      title: block.results ? "$(sync) Update list" : "$(add) Insert list",
+      tooltip: "Write the results below the query as a list of wiki links",
+      command: "typst-oxide.materializeQueries",
+      arguments: [document.uri, block.line],
+    };
+  }
+
+  private scheduleRefresh(uri: vscode.Uri): void {
+    this.changedFiles.add(uri.fsPath);
+    clearTimeout(this.refreshTimer);
+    this.refreshTimer = setTimeout(
+      () => this.refreshChangedLenses(),
+      REFRESH_DELAY
+    );
+  }
+
+  /**
+   * Forgets the shown results that the files indexed since the last refresh
+   * may change, and refreshes the lenses when any were forgotten. Queries
+   * no changed file matches, before or after, keep their results.
+   */
+  private async refreshChangedLenses(): Promise<void> {
+    const changedFiles = Array.from(this.changedFiles);
+    this.changedFiles.clear();
+
+    let stale = false;
+    for (const [key, queries] of this.shownResults) {
+      const documentUri = vscode.Uri.parse(key);
+      for (const [query, results] of queries) {
+        const shownFiles = new Set(results.map((result) => result.file.filePath));
+        const affected =
+          changedFiles.some((filePath) => shownFiles.has(filePath)) ||
+          (await QueryEngine.isAffectedBy(query, changedFiles, documentUri).catch(
+            () => true
+          ));
+        if (affected) {
+          queries.delete(query);
+          stale = true;
+        }
+      }
+    }
+
+    if (stale) {
+      this.onDidChangeCodeLensesEmitter.fire();
+    }
+  }
+
+  private escape(text: string): string {
+    return text.replace(/[\\|[\]*_`<>]/g, "\\$&");
+  }
+}
@@ -0,0 +1,149 @@
+import * as vscode from "vscode";
+import { QueryEngine, QueryResult } from "./query/queryEngine";
+import { QueryParser, QuerySort } from "./query/queryParser";
+import { PathResolver } from "./utils/pathResolver";
+
+const LAST_QUERY_KEY = "typst-oxide.lastQuery";
+
+/**
+ * Runs metadata queries from the command palette and lists the matching
+ * notes in the Query Results view
+ */
+export class QueryResultsProvider
+  implements vscode.TreeDataProvider<QueryResultItem>
+{
+  private _onDidChangeTreeData: vscode.EventEmitter<
+    QueryResultItem | undefined | null | void
+  > = new vscode.EventEmitter<QueryResultItem | undefined | null | void>();
+  readonly onDidChangeTreeData: vscode.Event<
+    QueryResultItem | undefined | null | void
+  > = this._onDidChangeTreeData.event;
+
+  private treeView: vscode.TreeView<QueryResultItem> | undefined;
+  private results: QueryResult[] = [];
+  private sort: QuerySort[] = [];
+
+  constructor(private context: vscode.ExtensionContext) {}
+
+  register(): void {
+    this.treeView = vscode.window.createTreeView("typst-oxide.queryResults", {
+      treeDataProvider: this,
+    });
+
+    this.context.subscriptions.push(
+      this.treeView,
+      this._onDidChangeTreeData,
+      // Query blocks in notes pass their query instead of prompting
+      vscode.commands.registerCommand("typst-oxide.runQuery", (source?: string) =>
+        typeof source === "string" ? this.run(source) : this.promptAndRun()
+      )
+    );
+  }
+
+  /**
+   * Asks for a query, checking its syntax as it is typed, and shows the notes
+   * it matches
+   */
+  async promptAndRun(): Promise<void> {
+    const source = await vscode.window.showInputBox({
+      title: "Run Query",
+      prompt: "FROM folders, #tags or [[links]], WHERE conditions, SORT fields, LIMIT n",
+      placeHolder: 'FROM "projects" WHERE status = "active" SORT date DESC',
+      value: this.context.workspaceState.get<string>(LAST_QUERY_KEY, ""),
+      validateInput: (value) => {
+        try {
+          QueryParser.parse(value);
+          return undefined;
+        } catch (error) {
+          return error instanceof Error ? error.message : String(error);
+        }
+      },
+    });
+    if (source === undefined) {
+      return;
+    }
+
+    await this.context.workspaceState.update(LAST_QUERY_KEY, source);
+    await this.run(source);
+  }
+
+  /**
+   * Runs a query and shows its results
+   */
+  async run(source: string): Promise<void> {
+    const contextUri = this.getContextUri();
+    if (!contextUri) {
+      vscode.window.showErrorMessage("Open a folder to run queries");
+      return;
+    }
+
+    try {
+      const query = QueryParser.parse(source);
+      this.results = await QueryEngine.run(query, contextUri);
+      this.sort = query.sort;
+    } catch (error) {
+      console.error("Failed to run query:", error);
+      vscode.window.showErrorMessage(`Failed to run query: ${error}`);
+      return;
+    }
+
+    this._onDidChangeTreeData.fire();
+    if (this.treeView) {
+      this.treeView.message = `${this.results.length} ${
+        this.results.length === 1 ? "note" : "notes"
+      } for ${source.trim() || "all notes"}`;
+      await vscode.commands.executeCommand("typst-oxide.queryResults.focus");
+    }
+  }
+
+  getTreeItem(element: QueryResultItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: QueryResultItem): QueryResultItem[] {
+    if (element) {
+      return [];
+    }
+    return this.results.map((result) => new QueryResultItem(result, this.sort));
+  }
+
+  /**
+   * Link paths in a query resolve from the active note, or else from the
+   * root of the first repository
+   */
+  private getContextUri(): vscode.Uri | undefined {
+    const activeDocument = vscode.window.activeTextEditor?.document;
+    if (activeDocument?.languageId === "typst") {
+      return activeDocument.uri;
+    }
+
+    const folder = PathResolver.getRepositoryFolders()[0];
+    return folder ? vscode.Uri.joinPath(folder.uri, "query.typ") : undefined;
+  }
+}
+
+/**
+ * A note matched by a query, labelled with its title and described by its
+ * path and the values it was sorted by
+ */
+export class QueryResultItem extends vscode.TreeItem {
+  constructor(public readonly result: QueryResult, sort: QuerySort[]) {
+    super(QueryEngine.getTitle(result.file), vscode.TreeItemCollapsibleState.None);
+
+    const sortValues = sort
+      .map((field) =>
+        QueryEngine.formatValue(QueryEngine.getFieldValue(result, field.field))
+      )
+      .filter((value) => value !== "");
+    this.description = [result.relativePath, ...sortValues].join(" · ");
+    this.tooltip = result.relativePath;
+    this.resourceUri = vscode.Uri.file(result.file.filePath);
+    this.iconPath = new vscode.ThemeIcon("file");
+    this.contextValue = "queryResult";
+    this.command = {
+      command: "vscode.open",
+      title: "Open Note",
+      arguments: [this.resourceUri],
+    };
+  }
+}
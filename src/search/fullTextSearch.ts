@@ -0,0 +1,155 @@
+import { promises as fs } from "fs";
+import * as vscode from "vscode";
+import { DatabaseService } from "../indexing/dbService";
+import { WikiLinkTokenizer } from "../utils/wikiLinkTokenizer";
+import { SearchTokenizer } from "./searchTokenizer";
+
+export interface SearchResult {
+  filePath: string;
+  score: number;
+  // Line of the note with the most matched terms
+  line: number;
+  // The prose of that line, whitespace collapsed, around the first match
+  snippet: string;
+  // Columns of the matched terms on the line
+  matches: Array<{ start: number; end: number }>;
+}
+
+// BM25 term frequency saturation and length normalization
+const K1 = 1.2;
+const B = 0.75;
+// Characters of the line kept before the first match in a snippet
+const SNIPPET_CONTEXT = 30;
+const MAX_SNIPPET_LENGTH = 120;
+
+/**
+ * Ranks notes against a free-text query with BM25 over the full-text index,
+ * which holds the terms of each note's prose (see SearchTokenizer)
+ */
+export class FullTextSearch {
+  /**
+   * Searches the notes, best first. With `prefix`, the last query term also
+   * matches longer terms, for searching as the query is typed.
+   */
+  static async search(
+    query: string,
+    options: { limit?: number; prefix?: boolean } = {}
+  ): Promise<SearchResult[]> {
+    const queryTerms = Array.from(
+      new Set(SearchTokenizer.tokenize(query).map((token) => token.term))
+    );
+    if (queryTerms.length === 0) {
+      return [];
+    }
+
+    const dbService = DatabaseService.getInstance();
+    const lengths = await dbService.getDocumentLengths();
+    const documentCount = lengths.size;
+    if (documentCount === 0) {
+      return [];
+    }
+    let totalLength = 0;
+    lengths.forEach((length) => (totalLength += length));
+    const averageLength = totalLength / documentCount || 1;
+
+    const scores = new Map<string, number>();
+    // Index terms matched in each file, to find them again for the snippet
+    const matchedTerms = new Map<string, Set<string>>();
+
+    for (const [index, queryTerm] of queryTerms.entries()) {
+      // A lone CJK character only occurs inside bigrams
+      const prefix =
+        (options.prefix && index === queryTerms.length - 1) ||
+        (SearchTokenizer.isCjk(queryTerm) && Array.from(queryTerm).length === 1);
+      const postings = await dbService.getPostings(queryTerm, prefix);
+
+      // The expansions of a prefix count as one query term: the best one
+      const termScores = new Map<string, number>();
+      for (const [term, files] of postings) {
+        const idf = Math.log(
+          1 + (documentCount - files.size + 0.5) / (files.size + 0.5)
+        );
+        for (const [filePath, frequency] of files) {
+          const length = lengths.get(filePath) ?? averageLength;
+          const score =
+            (idf * frequency * (K1 + 1)) /
+            (frequency + K1 * (1 - B + (B * length) / averageLength));
+          termScores.set(filePath, Math.max(termScores.get(filePath) ?? 0, score));
+
+          const terms = matchedTerms.get(filePath) ?? new Set();
+          terms.add(term);
+          matchedTerms.set(filePath, terms);
+        }
+      }
+      for (const [filePath, score] of termScores) {
+        scores.set(filePath, (scores.get(filePath) ?? 0) + score);
+      }
+    }
+
+    const ranked = Array.from(scores)
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, options.limit ?? 50);
+
+    return Promise.all(
+      ranked.map(async ([filePath, score]) => ({
+        filePath,
+        score,
+        ...(await this.findSnippet(filePath, matchedTerms.get(filePath)!)),
+      }))
+    );
+  }
+
+  /**
+   * Finds the line of a note's prose with the most distinct matched terms
+   */
+  private static async findSnippet(
+    filePath: string,
+    terms: Set<string>
+  ): Promise<Pick<SearchResult, "line" | "snippet" | "matches">> {
+    let text: string;
+    try {
+      // Open documents may be ahead of the file
+      const document = vscode.workspace.textDocuments.find(
+        (document) => document.uri.fsPath === filePath
+      );
+      text = document?.getText() ?? (await fs.readFile(filePath, "utf8"));
+    } catch {
+      return { line: 0, snippet: "", matches: [] };
+    }
+
+    const lines = WikiLinkTokenizer.extractMarkupText(text).split(/\r?\n/);
+    let best = { line: 0, count: 0, matches: [] as SearchResult["matches"] };
+    lines.forEach((lineText, line) => {
+      const tokens = SearchTokenizer.tokenize(lineText).filter((token) =>
+        terms.has(token.term)
+      );
+      const count = new Set(tokens.map((token) => token.term)).size;
+      if (count > best.count) {
+        best = {
+          line,
+          count,
+          matches: tokens.map((token) => ({ start: token.start, end: token.end })),
+        };
+      }
+    });
+
+    return {
+      line: best.line,
+      snippet: this.toSnippet(lines[best.line] ?? "", best.matches[0]?.start ?? 0),
+      matches: best.matches,
+    };
+  }
+
+  /**
+   * Cuts a line of prose down to the text around an offset, collapsing the
+   * whitespace left by blanked-out code
+   */
+  private static toSnippet(lineText: string, offset: number): string {
+    const start = Math.max(0, offset - SNIPPET_CONTEXT);
+    const snippet = lineText
+      .slice(start, start + MAX_SNIPPET_LENGTH)
+      .replace(/\s+/g, " ")
+      .trim();
+    return (start > 0 ? "…" : "") + snippet;
+  }
+}
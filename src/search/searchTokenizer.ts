@@ -0,0 +1,72 @@
+export interface SearchToken {
+  term: string;
+  // Offsets of the token in the tokenized text
+  start: number;
+  end: number;
+}
+
+// Scripts written without spaces between words
+const CJK_CLASS =
+  "\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Hangul}";
+// Matches a run of CJK characters, or a word of other letters and digits
+const TOKEN_REGEX = new RegExp(
+  `[${CJK_CLASS}]+|(?:(?![${CJK_CLASS}])[\\p{L}\\p{N}\\p{M}])+`,
+  "gu"
+);
+const CJK_REGEX = new RegExp(`^[${CJK_CLASS}]`, "u");
+
+/**
+ * Splits text into search terms. Words are lowercased and NFKC-normalized;
+ * CJK runs, which have no word boundaries, become overlapping character
+ * bigrams ("全文検索" → "全文", "文検", "検索"), or a single character when
+ * the run is one character long.
+ */
+export class SearchTokenizer {
+  static tokenize(text: string): SearchToken[] {
+    const tokens: SearchToken[] = [];
+
+    for (const match of text.matchAll(TOKEN_REGEX)) {
+      const start = match.index;
+      if (this.isCjk(match[0])) {
+        const chars = Array.from(match[0]);
+        if (chars.length === 1) {
+          tokens.push({ term: chars[0], start, end: start + chars[0].length });
+          continue;
+        }
+        let offset = start;
+        for (let index = 0; index < chars.length - 1; index++) {
+          const term = chars[index] + chars[index + 1];
+          tokens.push({ term, start: offset, end: offset + term.length });
+          offset += chars[index].length;
+        }
+        continue;
+      }
+
+      const term = match[0].normalize("NFKC").toLowerCase();
+      // Single letters are noise, single digits are not
+      if (term.length > 1 || /\p{N}/u.test(term)) {
+        tokens.push({ term, start, end: start + match[0].length });
+      }
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Counts the occurrences of each term of a text
+   */
+  static countTerms(text: string): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const { term } of this.tokenize(text)) {
+      counts.set(term, (counts.get(term) ?? 0) + 1);
+    }
+    return counts;
+  }
+
+  /**
+   * Checks if a term comes from a CJK run
+   */
+  static isCjk(term: string): boolean {
+    return CJK_REGEX.test(term);
+  }
+}
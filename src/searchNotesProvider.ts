@@ -0,0 +1,161 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { FullTextSearch, SearchResult } from "./search/fullTextSearch";
+import { PathResolver } from "./utils/pathResolver";
+
+// Waits for a pause in typing before searching
+const SEARCH_DELAY = 150;
+
+interface SearchResultItem extends vscode.QuickPickItem {
+  result: SearchResult;
+}
+
+/**
+ * Searches the prose of every note from a quick pick: results are ranked as
+ * the query is typed, the active one is previewed with its matches
+ * highlighted, and accepting it opens the note at the matched line
+ */
+export class SearchNotesProvider {
+  private readonly matchDecoration = vscode.window.createTextEditorDecorationType({
+    backgroundColor: new vscode.ThemeColor("editor.findMatchHighlightBackground"),
+    borderColor: new vscode.ThemeColor("editor.findMatchHighlightBorder"),
+    borderStyle: "solid",
+    borderWidth: "1px",
+  });
+
+  constructor(private context: vscode.ExtensionContext) {}
+
+  register(): void {
+    this.context.subscriptions.push(
+      this.matchDecoration,
+      vscode.commands.registerCommand("typst-oxide.searchNotes", () =>
+        this.showSearch()
+      )
+    );
+  }
+
+  /**
+   * Shows the search quick pick, starting from the selected text if any
+   */
+  showSearch(): void {
+    const quickPick = vscode.window.createQuickPick<SearchResultItem>();
+    quickPick.title = "Search Notes";
+    quickPick.placeholder = "Search the text of your notes";
+    // Results are ranked by the index, not filtered by the quick pick
+    quickPick.matchOnDescription = false;
+    quickPick.matchOnDetail = false;
+
+    const previousEditor = vscode.window.activeTextEditor;
+    const selection = previousEditor?.document.getText(previousEditor.selection);
+    if (selection && !selection.includes("\n")) {
+      quickPick.value = selection;
+    }
+
+    let searchTimer: NodeJS.Timeout | undefined;
+    let generation = 0;
+    let accepted = false;
+
+    const search = async (query: string) => {
+      const current = ++generation;
+      quickPick.busy = true;
+      try {
+        // Unless the query ends with a space, its last word may be partial
+        const results = await FullTextSearch.search(query, {
+          prefix: !/\s$/.test(query),
+        });
+        if (current === generation) {
+          quickPick.items = results.map((result) => this.toItem(result));
+        }
+      } catch (error) {
+        console.error("Failed to search notes:", error);
+        vscode.window.showErrorMessage(`Failed to search notes: ${error}`);
+      } finally {
+        if (current === generation) {
+          quickPick.busy = false;
+        }
+      }
+    };
+
+    quickPick.onDidChangeValue((value) => {
+      clearTimeout(searchTimer);
+      searchTimer = setTimeout(() => search(value), SEARCH_DELAY);
+    });
+    quickPick.onDidChangeActive(([item]) => {
+      if (item) {
+        this.openResult(item.result, true);
+      }
+    });
+    quickPick.onDidAccept(() => {
+      const item = quickPick.selectedItems[0] ?? quickPick.activeItems[0];
+      if (item) {
+        accepted = true;
+        quickPick.hide();
+        this.openResult(item.result, false);
+      }
+    });
+    quickPick.onDidHide(() => {
+      clearTimeout(searchTimer);
+      quickPick.dispose();
+      if (!accepted) {
+        vscode.window.visibleTextEditors.forEach((editor) =>
+          editor.setDecorations(this.matchDecoration, [])
+        );
+        // Go back to where the search started
+        if (previousEditor) {
+          vscode.window.showTextDocument(previousEditor.document, {
+            selection: previousEditor.selection,
+            viewColumn: previousEditor.viewColumn,
+          });
+        }
+      }
+    });
+
+    quickPick.show();
+    if (quickPick.value) {
+      search(quickPick.value);
+    }
+  }
+
+  private toItem(result: SearchResult): SearchResultItem {
+    const uri = vscode.Uri.file(result.filePath);
+    return {
+      label: path.basename(result.filePath, ".typ"),
+      description: `${PathResolver.getWorkspaceRelativePath(uri)}:${result.line + 1}`,
+      detail: result.snippet,
+      // Keep every ranked result, whatever the quick pick would match
+      alwaysShow: true,
+      result,
+    };
+  }
+
+  /**
+   * Opens a result at its line with the matched terms highlighted, as a
+   * preview that keeps the focus in the quick pick unless accepted
+   */
+  private async openResult(result: SearchResult, preview: boolean): Promise<void> {
+    try {
+      const document = await vscode.workspace.openTextDocument(
+        vscode.Uri.file(result.filePath)
+      );
+      const line = Math.min(result.line, document.lineCount - 1);
+      const ranges = result.matches.map(
+        (match) => new vscode.Range(line, match.start, line, match.end)
+      );
+      const editor = await vscode.window.showTextDocument(document, {
+        preview,
+        preserveFocus: preview,
+        selection: ranges[0] ?? new vscode.Range(line, 0, line, 0),
+      });
+      editor.revealRange(
+        editor.selection,
+        vscode.TextEditorRevealType.InCenterIfOutsideViewport
+      );
+      editor.setDecorations(this.matchDecoration, ranges);
+    } catch (error) {
+      console.error("Failed to open search result:", error);
+      if (!preview) {
+        vscode.window.showErrorMessage(`Failed to open ${result.filePath}: ${error}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * In-memory index of the aliases notes declare in `#metadata((alias: ...))`,
+ * used to resolve [[Alias Name]] links to the declaring note
+ */
+export class AliasIndex {
+  private static instance: AliasIndex;
+  // Lower-cased alias => files declaring it
+  private filesByAlias: Map<string, Set<string>> = new Map();
+  private aliasesByFile: Map<string, string[]> = new Map();
+
+  private constructor() {}
+
+  public static getInstance(): AliasIndex {
+    if (!AliasIndex.instance) {
+      AliasIndex.instance = new AliasIndex();
+    }
+    return AliasIndex.instance;
+  }
+
+  /**
+   * Replaces the aliases declared by a file
+   */
+  public setAliases(filePath: string, aliases: string[]): void {
+    this.removeFile(filePath);
+    if (aliases.length === 0) {
+      return;
+    }
+
+    this.aliasesByFile.set(filePath, aliases);
+    for (const alias of aliases) {
+      const key = this.toKey(alias);
+      let files = this.filesByAlias.get(key);
+      if (!files) {
+        files = new Set();
+        this.filesByAlias.set(key, files);
+      }
+      files.add(filePath);
+    }
+  }
+
+  public removeFile(filePath: string): void {
+    for (const alias of this.aliasesByFile.get(filePath) ?? []) {
+      const key = this.toKey(alias);
+      const files = this.filesByAlias.get(key);
+      files?.delete(filePath);
+      if (files?.size === 0) {
+        this.filesByAlias.delete(key);
+      }
+    }
+    this.aliasesByFile.delete(filePath);
+  }
+
+  /**
+   * Gets the files declaring an alias (case-insensitive), sorted by path
+   */
+  public getFiles(alias: string): string[] {
+    return Array.from(this.filesByAlias.get(this.toKey(alias)) ?? []).sort();
+  }
+
+  /**
+   * Gets the aliases a file declares
+   */
+  public getAliases(filePath: string): string[] {
+    return this.aliasesByFile.get(filePath) ?? [];
+  }
+
+  public clear(): void {
+    this.filesByAlias.clear();
+    this.aliasesByFile.clear();
+  }
+
+  private toKey(alias: string): string {
+    return alias.trim().normalize("NFC").toLowerCase();
+  }
+}
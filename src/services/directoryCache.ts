@@ -0,0 +1,74 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+
+/**
+ * In-memory cache of directory listings, so link resolution can check paths
+ * without reading the disk on every keystroke. Listings of workspace
+ * directories are kept until the file watcher reports a file created or
+ * deleted in them; directories outside the workspace aren't watched and are
+ * read every time.
+ */
+export class DirectoryCache {
+  private static instance: DirectoryCache;
+  // Entries of each directory, or undefined when it doesn't exist
+  private listings: Map<string, string[] | undefined> = new Map();
+
+  private constructor() {}
+
+  public static getInstance(): DirectoryCache {
+    if (!DirectoryCache.instance) {
+      DirectoryCache.instance = new DirectoryCache();
+    }
+    return DirectoryCache.instance;
+  }
+
+  /**
+   * Lists the entries of a directory, or undefined when it can't be read
+   */
+  public list(dir: string): string[] | undefined {
+    if (this.listings.has(dir)) {
+      return this.listings.get(dir);
+    }
+
+    let entries: string[] | undefined;
+    try {
+      entries = fs.readdirSync(dir);
+    } catch {
+      entries = undefined;
+    }
+    if (vscode.workspace.getWorkspaceFolder(vscode.Uri.file(dir))) {
+      this.listings.set(dir, entries);
+    }
+    return entries;
+  }
+
+  /**
+   * Checks if a file or directory exists, spelled exactly as given
+   */
+  public exists(filePath: string): boolean {
+    const parent = path.dirname(filePath);
+    if (parent === filePath) {
+      return fs.existsSync(filePath);
+    }
+    return this.list(parent)?.includes(path.basename(filePath)) ?? false;
+  }
+
+  /**
+   * Forgets the listings a created or deleted path changes: its parent's
+   * and, for a directory, its own and those below it
+   */
+  public invalidate(uri: vscode.Uri): void {
+    const filePath = uri.fsPath;
+    this.listings.delete(path.dirname(filePath));
+    for (const dir of this.listings.keys()) {
+      if (dir === filePath || dir.startsWith(filePath + path.sep)) {
+        this.listings.delete(dir);
+      }
+    }
+  }
+
+  public clear(): void {
+    this.listings.clear();
+  }
+}
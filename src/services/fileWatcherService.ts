@@ -1,4 +1,5 @@
 import * as vscode from "vscode";
+import { DirectoryCache } from "./directoryCache";
 
 export interface FileWatcherCallback {
   onDidChange?: (uri: vscode.Uri) => void | Promise<void>;
@@ -14,11 +15,15 @@ export class FileWatcherService {
   private settingsCallbacks: Map<string, FileWatcherCallback> = new Map();
   private repositoryWatcher: vscode.FileSystemWatcher | undefined;
   private repositoryCallbacks: Map<string, FileWatcherCallback> = new Map();
+  private workspaceWatcher: vscode.FileSystemWatcher | undefined;
+  private fileCallbacks: Map<string, FileWatcherCallback> = new Map();
+  private workspaceListeners: vscode.Disposable[] = [];
 
   private constructor() {
     this.setupTypstFileWatcher();
     this.setupSettingsFileWatcher();
     this.setupRepositoryWatcher();
+    this.setupWorkspaceWatcher();
   }
 
   public static getInstance(): FileWatcherService {
@@ -47,6 +52,7 @@ export class FileWatcherService {
     });
 
     this.fileWatcher.onDidCreate(async (uri) => {
+      DirectoryCache.getInstance().invalidate(uri);
       for (const callback of this.typstCallbacks.values()) {
         if (callback.onDidCreate) {
           try {
@@ -59,6 +65,7 @@ export class FileWatcherService {
     });
 
     this.fileWatcher.onDidDelete(async (uri) => {
+      DirectoryCache.getInstance().invalidate(uri);
       for (const callback of this.typstCallbacks.values()) {
         if (callback.onDidDelete) {
           try {
@@ -90,6 +97,7 @@ export class FileWatcherService {
     });
 
     this.settingsWatcher.onDidCreate(async (uri) => {
+      DirectoryCache.getInstance().invalidate(uri);
       for (const callback of this.settingsCallbacks.values()) {
         if (callback.onDidCreate) {
           try {
@@ -102,6 +110,7 @@ export class FileWatcherService {
     });
 
     this.settingsWatcher.onDidDelete(async (uri) => {
+      DirectoryCache.getInstance().invalidate(uri);
       for (const callback of this.settingsCallbacks.values()) {
         if (callback.onDidDelete) {
           try {
@@ -121,6 +130,7 @@ export class FileWatcherService {
     this.repositoryWatcher = vscode.workspace.createFileSystemWatcher("**/.typst-oxide");
 
     this.repositoryWatcher.onDidCreate(async (uri) => {
+      DirectoryCache.getInstance().invalidate(uri);
       for (const callback of this.repositoryCallbacks.values()) {
         if (callback.onDidCreate) {
           try {
@@ -133,6 +143,7 @@ export class FileWatcherService {
     });
 
     this.repositoryWatcher.onDidDelete(async (uri) => {
+      DirectoryCache.getInstance().invalidate(uri);
       for (const callback of this.repositoryCallbacks.values()) {
         if (callback.onDidDelete) {
           try {
@@ -145,6 +156,67 @@ export class FileWatcherService {
     });
   }
 
+  /**
+   * Sets up the watcher for the creation and deletion of files of any type,
+   * e.g. linked images. They change the directory listings cached for link
+   * resolution, which the other watchers also drop before running their
+   * callbacks, whichever watcher fires first.
+   */
+  private setupWorkspaceWatcher(): void {
+    this.workspaceWatcher = vscode.workspace.createFileSystemWatcher(
+      "**/*",
+      false,
+      true,
+      false
+    );
+
+    this.workspaceWatcher.onDidCreate(async (uri) => {
+      DirectoryCache.getInstance().invalidate(uri);
+      for (const callback of this.fileCallbacks.values()) {
+        if (callback.onDidCreate) {
+          try {
+            await callback.onDidCreate(uri);
+          } catch (error) {
+            console.error('Error in file create callback:', error);
+          }
+        }
+      }
+    });
+
+    this.workspaceWatcher.onDidDelete(async (uri) => {
+      DirectoryCache.getInstance().invalidate(uri);
+      for (const callback of this.fileCallbacks.values()) {
+        if (callback.onDidDelete) {
+          try {
+            await callback.onDidDelete(uri);
+          } catch (error) {
+            console.error('Error in file delete callback:', error);
+          }
+        }
+      }
+    });
+
+    const directoryCache = DirectoryCache.getInstance();
+    this.workspaceListeners.push(
+      // Edits made in the editor are known before the watcher reports them;
+      // this service is created first, so its listeners run before others
+      vscode.workspace.onDidCreateFiles((event) =>
+        event.files.forEach((uri) => directoryCache.invalidate(uri))
+      ),
+      vscode.workspace.onDidDeleteFiles((event) =>
+        event.files.forEach((uri) => directoryCache.invalidate(uri))
+      ),
+      vscode.workspace.onDidRenameFiles((event) =>
+        event.files.forEach(({ oldUri, newUri }) => {
+          directoryCache.invalidate(oldUri);
+          directoryCache.invalidate(newUri);
+        })
+      ),
+      // Folders leaving the workspace are no longer watched
+      vscode.workspace.onDidChangeWorkspaceFolders(() => directoryCache.clear())
+    );
+  }
+
   /**
    * Registers a callback for .typ file events
    */
@@ -187,6 +259,20 @@ export class FileWatcherService {
     this.repositoryCallbacks.delete(id);
   }
 
+  /**
+   * Registers a callback for the creation and deletion of files of any type
+   */
+  public registerFileCallback(id: string, callback: FileWatcherCallback): void {
+    this.fileCallbacks.set(id, callback);
+  }
+
+  /**
+   * Unregisters a callback for files of any type
+   */
+  public unregisterFileCallback(id: string): void {
+    this.fileCallbacks.delete(id);
+  }
+
   /**
    * Disposes all watchers
    */
@@ -200,8 +286,14 @@ export class FileWatcherService {
     if (this.repositoryWatcher) {
       this.repositoryWatcher.dispose();
     }
+    if (this.workspaceWatcher) {
+      this.workspaceWatcher.dispose();
+    }
+    this.workspaceListeners.forEach((listener) => listener.dispose());
+    this.workspaceListeners = [];
     this.typstCallbacks.clear();
     this.settingsCallbacks.clear();
     this.repositoryCallbacks.clear();
+    this.fileCallbacks.clear();
   }
 }
\ No newline at end of file
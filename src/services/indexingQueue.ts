@@ -0,0 +1,118 @@
+interface QueuedJob {
+  run: () => Promise<void>;
+  priority: number;
+  coalesceKey?: string;
+  promise: Promise<boolean>;
+  resolve: (completed: boolean) => void;
+}
+
+export interface EnqueueOptions {
+  // Higher priorities run first, e.g. the file in the active editor
+  priority?: number;
+  // Kind of work the job does, e.g. "update". A job joins the last pending
+  // job for the same path when that one does the same work, instead of
+  // queueing another one; a job of another kind runs after it. Jobs that
+  // must always run (e.g. re-resolving the links of a file) have none.
+  coalesceKey?: string;
+}
+
+/**
+ * Work queue for indexing jobs, keyed by file path. Runs up to a configurable
+ * number of jobs at once, highest priority first, and never two jobs for the
+ * same path at the same time. Bursts of file watcher events for one path
+ * collapse into a single pending job.
+ */
+export class IndexingQueue {
+  private pending: Map<string, QueuedJob[]> = new Map();
+  private running: Set<string> = new Set();
+
+  constructor(private getConcurrency: () => number) {}
+
+  /**
+   * Queues a job for a path. Resolves to true once the job that ends up
+   * running for the path has finished, or to false when it is cancelled.
+   */
+  public enqueue(
+    key: string,
+    run: () => Promise<void>,
+    options: EnqueueOptions = {}
+  ): Promise<boolean> {
+    const priority = options.priority ?? 0;
+    const coalesceKey = options.coalesceKey;
+    const jobs = this.pending.get(key) ?? [];
+
+    const last = jobs[jobs.length - 1];
+    if (coalesceKey !== undefined && last?.coalesceKey === coalesceKey) {
+      last.priority = Math.max(last.priority, priority);
+      return last.promise;
+    }
+
+    let resolve!: (completed: boolean) => void;
+    const promise = new Promise<boolean>((resolvePromise) => {
+      resolve = resolvePromise;
+    });
+    jobs.push({ run, priority, coalesceKey, promise, resolve });
+    this.pending.set(key, jobs);
+    this.pump();
+    return promise;
+  }
+
+  /**
+   * Drops the pending jobs of some paths, or of every path. Jobs that are
+   * already running finish.
+   */
+  public cancel(keys?: Iterable<string>): void {
+    for (const key of keys ?? Array.from(this.pending.keys())) {
+      for (const job of this.pending.get(key) ?? []) {
+        job.resolve(false);
+      }
+      this.pending.delete(key);
+    }
+  }
+
+  /**
+   * Starts pending jobs while there are free slots
+   */
+  private pump(): void {
+    while (this.running.size < Math.max(1, this.getConcurrency())) {
+      const key = this.takeNextKey();
+      if (!key) {
+        return;
+      }
+
+      const jobs = this.pending.get(key)!;
+      const job = jobs.shift()!;
+      if (jobs.length === 0) {
+        this.pending.delete(key);
+      }
+
+      this.running.add(key);
+      job
+        .run()
+        .catch((error) => console.error(`Indexing job failed for ${key}:`, error))
+        .finally(() => {
+          this.running.delete(key);
+          job.resolve(true);
+          this.pump();
+        });
+    }
+  }
+
+  /**
+   * Picks the path whose next job has the highest priority, skipping paths
+   * with a running job. Ties go to the path queued first.
+   */
+  private takeNextKey(): string | undefined {
+    let nextKey: string | undefined;
+    let nextPriority = -Infinity;
+
+    for (const [key, jobs] of this.pending) {
+      if (!this.running.has(key) && jobs[0].priority > nextPriority) {
+        nextKey = key;
+        nextPriority = jobs[0].priority;
+      }
+    }
+
+    return nextKey;
+  }
+}
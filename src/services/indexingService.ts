@@ -1,20 +1,57 @@
+import * as path from "path";
 import * as vscode from "vscode";
-import { DatabaseService } from "../indexing/dbService";
-import { MetadataExtractor } from "../indexing/metadataExtractor";
+import {
+  DatabaseService,
+  FileMetadata,
+  WikiLink,
+} from "../indexing/dbService";
+import {
+  ExtractedMetadata,
+  MetadataExtractor,
+} from "../indexing/metadataExtractor";
+import { InterwikiResolver } from "../utils/interwikiResolver";
+import { PathResolver } from "../utils/pathResolver";
+import { TagScanner } from "../utils/tagScanner";
+import { SettingsManager } from "../settings";
+import { AliasIndex } from "./aliasIndex";
 import { FileWatcherService } from "./fileWatcherService";
+import { IndexingQueue } from "./indexingQueue";
+import { NoteNameIndex } from "./noteNameIndex";
 
 const INDEXING_SERVICE_ID = "indexing-service";
+// Delay after the last edit before unsaved changes are indexed
+const OVERLAY_UPDATE_DELAY = 500;
 
 export class IndexingService {
   private static instance: IndexingService;
   private fileWatcherService: FileWatcherService;
   private dbService: DatabaseService;
   private metadataExtractor: MetadataExtractor;
+  private noteNameIndex: NoteNameIndex;
+  private aliasIndex: AliasIndex;
+  private queue: IndexingQueue;
+  private workspaceFoldersListener: vscode.Disposable | undefined;
+  private trustListener: vscode.Disposable | undefined;
+  private documentListeners: vscode.Disposable[] = [];
+  private overlayTimers: Map<string, NodeJS.Timeout> = new Map();
+  private onDidChangeOverlayEmitter = new vscode.EventEmitter<vscode.Uri>();
+  private onDidUpdateFileEmitter = new vscode.EventEmitter<vscode.Uri>();
+
+  // Fires when the unsaved changes of a document are indexed or discarded
+  public readonly onDidChangeOverlay = this.onDidChangeOverlayEmitter.event;
+
+  // Fires when the saved record of a file is indexed or removed
+  public readonly onDidUpdateFile = this.onDidUpdateFileEmitter.event;
 
   private constructor() {
     this.dbService = DatabaseService.getInstance();
     this.metadataExtractor = MetadataExtractor.getInstance();
+    this.noteNameIndex = NoteNameIndex.getInstance();
+    this.aliasIndex = AliasIndex.getInstance();
     this.fileWatcherService = FileWatcherService.getInstance();
+    this.queue = new IndexingQueue(
+      () => SettingsManager.getInstance().getSettingsOrDefaults().indexing.concurrency
+    );
   }
 
   public static getInstance(): IndexingService {
@@ -29,7 +66,9 @@ export class IndexingService {
    */
   public async initialize(): Promise<void> {
     await this.dbService.initialize();
+    await this.loadNameIndexes();
     this.setupFileWatcher();
+    this.setupDocumentListeners();
     await this.indexWorkspace();
   }
 
@@ -39,49 +78,147 @@ export class IndexingService {
   private setupFileWatcher(): void {
     this.fileWatcherService.registerTypstCallback(INDEXING_SERVICE_ID, {
       onDidChange: async (uri) => {
-        await this.updateFileInDatabase(uri);
+        await this.enqueueUpdate(uri);
       },
       onDidCreate: async (uri) => {
-        await this.updateFileInDatabase(uri);
+        await this.enqueueUpdate(uri);
       },
       onDidDelete: async (uri) => {
-        await this.dbService.deleteFile(uri.fsPath);
+        await this.enqueueRemoval(uri);
       },
     });
+
+    // Links to an asset (e.g. an image) may resolve differently once it
+    // exists; notes are handled by the .typ watcher above
+    this.fileWatcherService.registerFileCallback(INDEXING_SERVICE_ID, {
+      onDidCreate: (uri) => this.reresolveAssetDependents(uri),
+      onDidDelete: (uri) => this.reresolveAssetDependents(uri),
+    });
+
+    // Open (or close) per-folder indexes as repositories come and go
+    this.fileWatcherService.registerRepositoryCallback(INDEXING_SERVICE_ID, {
+      onDidCreate: () => this.syncRepositories(),
+      onDidDelete: () => this.syncRepositories(),
+    });
+    this.workspaceFoldersListener =
+      vscode.workspace.onDidChangeWorkspaceFolders(() =>
+        this.syncRepositories()
+      );
+
+    // Metadata is only queried in trusted workspaces, so fill it in now
+    this.trustListener = vscode.workspace.onDidGrantWorkspaceTrust(() =>
+      this.refreshAll()
+    );
+  }
+
+  /**
+   * Syncs the open indexes with the repository folders and indexes new ones
+   */
+  private async syncRepositories(): Promise<void> {
+    try {
+      await this.dbService.syncRepositories();
+      await this.indexWorkspace();
+    } catch (error) {
+      console.error("Failed to sync repositories:", error);
+    }
+  }
+
+  /**
+   * Seeds the note name and alias indexes from the persisted database, so
+   * name-based link resolution works before the workspace has been re-indexed
+   */
+  private async loadNameIndexes(): Promise<void> {
+    try {
+      const files = await this.dbService.getAllFiles();
+      for (const file of files) {
+        this.noteNameIndex.addFile(file.filePath);
+        this.aliasIndex.setAliases(file.filePath, file.aliases ?? []);
+      }
+    } catch (error) {
+      console.error("Failed to load note names:", error);
+    }
+  }
+
+  /**
+   * Queues re-indexing a file, coalesced with a pending update of the file.
+   * Resolves to false if the job was cancelled.
+   */
+  private enqueueUpdate(uri: vscode.Uri): Promise<boolean> {
+    return this.queue.enqueue(uri.fsPath, () => this.updateFileInDatabase(uri), {
+      priority: this.getPriority(uri),
+      coalesceKey: "update",
+    });
+  }
+
+  /**
+   * Queues removing a deleted file from the index
+   */
+  private enqueueRemoval(uri: vscode.Uri): Promise<boolean> {
+    return this.queue.enqueue(uri.fsPath, () => this.removeFileFromDatabase(uri), {
+      priority: this.getPriority(uri),
+      coalesceKey: "remove",
+    });
+  }
+
+  /**
+   * Gets the queue priority of a file: the file in the active editor is
+   * indexed first, then other open documents, then everything else
+   */
+  private getPriority(uri: vscode.Uri): number {
+    if (vscode.window.activeTextEditor?.document.uri.fsPath === uri.fsPath) {
+      return 2;
+    }
+    return vscode.workspace.textDocuments.some(
+      (document) => document.uri.fsPath === uri.fsPath
+    )
+      ? 1
+      : 0;
+  }
+
+  /**
+   * Checks if a file is a note of an indexed repository; embed exports are
+   * copies of other notes and stay out of the index
+   */
+  private isIndexable(uri: vscode.Uri): boolean {
+    return (
+      this.dbService.hasIndexFor(uri.fsPath) &&
+      !PathResolver.isEmbedExport(uri.fsPath)
+    );
   }
 
   /**
    * Updates a file in the database with fresh metadata
    */
-  public async updateFileInDatabase(uri: vscode.Uri): Promise<void> {
+  private async updateFileInDatabase(uri: vscode.Uri): Promise<void> {
     try {
+      if (!this.isIndexable(uri)) {
+        return;
+      }
+
       const metadata = await this.metadataExtractor.extractMetadata(uri);
       if (metadata) {
-        await this.dbService.upsertFile({
-          filePath: metadata.filePath,
-          lastModified: metadata.lastModified,
-          metadata: metadata.metadata,
-          aliases: Array.isArray(metadata.metadata?.alias) ? metadata.metadata.alias : [],
-          wikilinks: metadata.wikilinks.map((link) => ({
-            sourceFile: metadata.filePath,
-            targetFile: link.targetFile,
-            label: link.label,
-            alias: link.alias,
-            range: link.range,
-          })),
-          labels: metadata.labels.map((label) => ({
-            name: label.name,
-            filePath: metadata.filePath,
-            position: label.position,
-            type: label.type,
-          })),
-          headings: metadata.headings.map((heading) => ({
-            text: heading.text,
-            level: heading.level,
-            filePath: metadata.filePath,
-            position: heading.position,
-          })),
-        });
+        const previous = await this.dbService.getStoredFile(metadata.filePath);
+        const aliases = this.getAliases(metadata.metadata);
+        this.noteNameIndex.addFile(metadata.filePath);
+        this.aliasIndex.setAliases(metadata.filePath, aliases);
+        await this.dbService.upsertFile(
+          this.toFileMetadata(uri, metadata, aliases),
+          metadata.searchTerms
+        );
+        this.onDidUpdateFileEmitter.fire(uri);
+
+        // A new note or alias can capture links that resolved elsewhere
+        const previousAliases = previous?.aliases ?? [];
+        if (
+          !previous ||
+          previousAliases.length !== aliases.length ||
+          previousAliases.some((alias, index) => alias !== aliases[index])
+        ) {
+          await this.reresolveDependents(metadata.filePath, [
+            ...previousAliases,
+            ...aliases,
+          ]);
+        }
       }
     } catch (error) {
       console.error(`Failed to update file in database: ${uri.fsPath}`, error);
@@ -89,23 +226,265 @@ export class IndexingService {
   }
 
   /**
-   * Ensures a file is indexed in the database
+   * Builds the database record of a file from its extracted metadata
    */
-  public async ensureFileIndexed(fileUri: vscode.Uri): Promise<void> {
+  private toFileMetadata(
+    uri: vscode.Uri,
+    metadata: Omit<ExtractedMetadata, "searchTerms">,
+    aliases: string[]
+  ): FileMetadata {
+    return {
+      filePath: metadata.filePath,
+      lastModified: metadata.lastModified,
+      metadata: metadata.metadata,
+      aliases,
+      tags: Array.from(
+        new Set([...TagScanner.fromMetadata(metadata.metadata), ...metadata.tags])
+      ).sort(),
+      wikilinks: this.resolveWikilinks(
+        uri,
+        metadata.wikilinks.map((link) => ({
+          sourceFile: metadata.filePath,
+          targetFile: link.targetFile,
+          label: link.label,
+          headingPath: link.headingPath,
+          alias: link.alias,
+          embed: link.embed,
+          range: link.range,
+        }))
+      ),
+      labels: metadata.labels.map((label) => ({
+        name: label.name,
+        filePath: metadata.filePath,
+        position: label.position,
+        type: label.type,
+        text: label.text,
+      })),
+      headings: metadata.headings.map((heading) => ({
+        text: heading.text,
+        level: heading.level,
+        filePath: metadata.filePath,
+        position: heading.position,
+      })),
+    };
+  }
+
+  /**
+   * Indexes the unsaved text of a dirty document into the overlay, so links
+   * typed since the last save show up in queries. The `#metadata` values
+   * (and aliases) come from the saved file, as typst can only query files.
+   */
+  private async updateOverlay(document: vscode.TextDocument): Promise<void> {
     try {
-      const filePath = fileUri.fsPath;
-      const isIndexed = await this.dbService.isFileIndexed(filePath);
+      if (!document.isDirty) {
+        this.discardOverlay(document.uri);
+        return;
+      }
+      if (!this.isIndexable(document.uri)) {
+        return;
+      }
 
-      if (!isIndexed) {
-        await this.updateFileInDatabase(fileUri);
-      } else {
-        // Check if file has been modified since last indexing
-        const stats = await vscode.workspace.fs.stat(fileUri);
-        const lastIndexed = await this.dbService.getLastModified(filePath);
+      const stored = await this.dbService.getStoredFile(document.uri.fsPath);
+      const file = this.toFileMetadata(
+        document.uri,
+        {
+          filePath: document.uri.fsPath,
+          lastModified: stored?.lastModified ?? 0,
+          metadata: stored?.metadata ?? {},
+          ...this.metadataExtractor.extractStructure(document),
+        },
+        stored?.aliases ?? []
+      );
 
-        if (!lastIndexed || stats.mtime > lastIndexed) {
-          await this.updateFileInDatabase(fileUri);
+      // The document may have been saved, reverted or closed meanwhile
+      if (document.isDirty && !document.isClosed) {
+        this.dbService.setOverlay(file);
+        this.onDidChangeOverlayEmitter.fire(document.uri);
+      }
+    } catch (error) {
+      console.error(`Failed to index unsaved changes: ${document.uri.fsPath}`, error);
+    }
+  }
+
+  /**
+   * Drops the overlay entry of a document once it is saved, reverted or closed
+   */
+  private discardOverlay(uri: vscode.Uri): void {
+    clearTimeout(this.overlayTimers.get(uri.fsPath));
+    this.overlayTimers.delete(uri.fsPath);
+
+    if (this.dbService.deleteOverlay(uri.fsPath)) {
+      this.onDidChangeOverlayEmitter.fire(uri);
+    }
+  }
+
+  /**
+   * Keeps the overlay in sync with dirty Typst documents, debouncing edits
+   */
+  private setupDocumentListeners(): void {
+    this.documentListeners.push(
+      vscode.workspace.onDidChangeTextDocument((event) => {
+        const document = event.document;
+        if (document.languageId !== "typst") {
+          return;
+        }
+        if (!document.isDirty) {
+          this.discardOverlay(document.uri);
+          return;
         }
+
+        clearTimeout(this.overlayTimers.get(document.uri.fsPath));
+        this.overlayTimers.set(
+          document.uri.fsPath,
+          setTimeout(() => {
+            this.overlayTimers.delete(document.uri.fsPath);
+            void this.updateOverlay(document);
+          }, OVERLAY_UPDATE_DELAY)
+        );
+      }),
+      // The file watcher indexes the saved version
+      vscode.workspace.onDidSaveTextDocument((document) =>
+        this.discardOverlay(document.uri)
+      ),
+      vscode.workspace.onDidCloseTextDocument((document) =>
+        this.discardOverlay(document.uri)
+      )
+    );
+  }
+
+  /**
+   * Removes a deleted file from the database and the name indexes, then
+   * re-resolves the links that pointed to it
+   */
+  private async removeFileFromDatabase(uri: vscode.Uri): Promise<void> {
+    try {
+      const previous = await this.dbService.getStoredFile(uri.fsPath);
+      this.noteNameIndex.removeFile(uri.fsPath);
+      this.aliasIndex.removeFile(uri.fsPath);
+      await this.dbService.deleteFile(uri.fsPath);
+      this.onDidUpdateFileEmitter.fire(uri);
+      await this.reresolveDependents(uri.fsPath, previous?.aliases ?? []);
+    } catch (error) {
+      console.error(`Failed to remove file from database: ${uri.fsPath}`, error);
+    }
+  }
+
+  /**
+   * Sets the absolute target of each wiki link, using the same resolution
+   * rules as navigation. Interwiki links have no target in the workspace.
+   */
+  private resolveWikilinks(sourceUri: vscode.Uri, links: WikiLink[]): WikiLink[] {
+    return links.map((link) => ({
+      ...link,
+      resolvedTarget: InterwikiResolver.isInterwikiPrefix(
+        sourceUri,
+        link.targetFile
+      )
+        ? undefined
+        : PathResolver.resolveLinkTarget(sourceUri, link.targetFile).fsPath,
+    }));
+  }
+
+  /**
+   * Queues re-resolving the links to a created or deleted asset, a file
+   * with a configured `file-extensions` extension
+   */
+  private async reresolveAssetDependents(uri: vscode.Uri): Promise<void> {
+    if (
+      PathResolver.isTypstFile(uri) ||
+      !PathResolver.isLinkableExtension(path.extname(uri.fsPath), uri) ||
+      !this.dbService.hasIndexFor(uri.fsPath)
+    ) {
+      return;
+    }
+    await this.reresolveDependents(uri.fsPath, []);
+  }
+
+  /**
+   * Queues re-resolving the links of the files that may depend on a created
+   * or deleted note or asset: links resolving to it, and links by its name
+   * or aliases
+   */
+  private async reresolveDependents(
+    filePath: string,
+    aliases: string[]
+  ): Promise<void> {
+    const dependents = new Set(
+      (await this.dbService.getFilesWithWikilinksTo(filePath)).map(
+        (file) => file.filePath
+      )
+    );
+    // Link names keep the extension of assets, e.g. "figure.png"
+    const name = path.basename(filePath).replace(/\.typ$/, "");
+    for (const linkName of [name, ...aliases]) {
+      for (const file of await this.dbService.getFilesLinkingByName(linkName)) {
+        dependents.add(file.filePath);
+      }
+    }
+    dependents.delete(filePath);
+
+    // Not awaited: this runs inside the job for `filePath`, and waiting on
+    // other jobs could take up every slot of the queue
+    for (const dependent of dependents) {
+      void this.queue.enqueue(dependent, () => this.reresolveFile(dependent));
+    }
+  }
+
+  /**
+   * Re-resolves the stored links of an indexed file without extracting it
+   */
+  private async reresolveFile(filePath: string): Promise<void> {
+    const file = await this.dbService.getStoredFile(filePath);
+    if (!file) {
+      return;
+    }
+
+    const wikilinks = this.resolveWikilinks(
+      vscode.Uri.file(file.filePath),
+      file.wikilinks
+    );
+    if (
+      wikilinks.some(
+        (link, index) =>
+          link.resolvedTarget !== file.wikilinks[index].resolvedTarget
+      )
+    ) {
+      await this.dbService.upsertFile({ ...file, wikilinks });
+      this.onDidUpdateFileEmitter.fire(vscode.Uri.file(file.filePath));
+    }
+  }
+
+  /**
+   * Gets the aliases declared in `#metadata((alias: ...))`, either a single
+   * string or an array of strings
+   */
+  private getAliases(metadata: any): string[] {
+    const alias = metadata?.alias;
+    if (typeof alias === "string") {
+      return [alias];
+    }
+    return Array.isArray(alias)
+      ? alias.filter((value): value is string => typeof value === "string")
+      : [];
+  }
+
+  /**
+   * Ensures a file is indexed in the database and up to date
+   */
+  public async ensureFileIndexed(fileUri: vscode.Uri): Promise<void> {
+    await this.queue.enqueue(fileUri.fsPath, () => this.indexIfChanged(fileUri), {
+      priority: this.getPriority(fileUri),
+      coalesceKey: "ensure",
+    });
+  }
+
+  /**
+   * Indexes a file unless it is indexed and unchanged since
+   */
+  private async indexIfChanged(fileUri: vscode.Uri): Promise<void> {
+    try {
+      if (await this.needsIndexing(fileUri)) {
+        await this.updateFileInDatabase(fileUri);
       }
     } catch (error) {
       console.error(
@@ -116,35 +495,129 @@ export class IndexingService {
   }
 
   /**
-   * Indexes all .typ files in the workspace
+   * Checks if a file isn't indexed yet or was modified since it was
+   */
+  private async needsIndexing(fileUri: vscode.Uri): Promise<boolean> {
+    const lastIndexed = await this.dbService.getLastModified(fileUri.fsPath);
+    if (!lastIndexed) {
+      return true;
+    }
+    const stats = await vscode.workspace.fs.stat(fileUri);
+    return stats.mtime > lastIndexed;
+  }
+
+  /**
+   * Indexes all .typ files in the workspace through the queue. Entries of
+   * files that are gone from disk are purged first; unless `force` is set,
+   * files unchanged since they were last indexed are skipped rather than
+   * queried again. A cancellable progress notification shows while there
+   * are files to index.
    */
-  public async indexWorkspace(): Promise<void> {
+  public async indexWorkspace(force = false): Promise<void> {
     try {
       const allTypstFiles = await vscode.workspace.findFiles(
         "**/*.typ",
-        "**/node_modules/**"
+        "{**/node_modules/**,**/*.export.typ}"
       );
 
-      for (const fileUri of allTypstFiles) {
-        await this.updateFileInDatabase(fileUri);
+      await this.purgeMissingFiles(allTypstFiles);
+
+      // Files outside the repositories aren't indexed at all
+      const needsIndexing = await Promise.all(
+        allTypstFiles.map(
+          (fileUri) =>
+            this.isIndexable(fileUri) &&
+            (force || this.needsIndexing(fileUri).catch(() => true))
+        )
+      );
+      const filesToIndex = allTypstFiles.filter(
+        (_, index) => needsIndexing[index]
+      );
+      if (filesToIndex.length === 0) {
+        return;
       }
+
+      await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: "Indexing Typst files",
+          cancellable: true,
+        },
+        async (progress, token) => {
+          const total = filesToIndex.length;
+          let indexed = 0;
+
+          const cancellation = token.onCancellationRequested(() =>
+            this.queue.cancel(filesToIndex.map((uri) => uri.fsPath))
+          );
+
+          await Promise.all(
+            filesToIndex.map(async (fileUri) => {
+              // Cancelled jobs resolve too, but weren't indexed
+              if (!(await this.enqueueUpdate(fileUri))) {
+                return;
+              }
+
+              indexed++;
+              progress.report({
+                message: `Indexed ${indexed}/${total}`,
+                increment: 100 / total,
+              });
+            })
+          );
+
+          cancellation.dispose();
+        }
+      );
     } catch (error) {
       console.error("Failed to index workspace:", error);
     }
   }
 
   /**
-   * Refreshes the entire workspace index
+   * Removes the entries of indexed files that were deleted or moved while
+   * the extension wasn't running
+   */
+  private async purgeMissingFiles(foundFiles: vscode.Uri[]): Promise<void> {
+    const found = new Set(foundFiles.map((uri) => uri.fsPath));
+
+    for (const filePath of await this.dbService.getIndexedFilePaths()) {
+      // Files outside the search (e.g. opened from node_modules) may still
+      // exist; embed exports indexed by earlier versions are dropped
+      const uri = vscode.Uri.file(filePath);
+      if (
+        !found.has(filePath) &&
+        (PathResolver.isEmbedExport(filePath) ||
+          !(await PathResolver.fileExists(uri)))
+      ) {
+        await this.enqueueRemoval(uri);
+      }
+    }
+  }
+
+  /**
+   * Refreshes the entire workspace index, re-indexing every file
    */
   public async refreshAll(): Promise<void> {
-    await this.indexWorkspace();
+    await this.indexWorkspace(true);
+  }
+
+  /**
+   * Wipes the index databases and re-indexes every file from scratch
+   */
+  public async rebuildIndex(): Promise<void> {
+    this.queue.cancel();
+    this.noteNameIndex.clear();
+    this.aliasIndex.clear();
+    await this.dbService.rebuild();
+    await this.indexWorkspace(true);
   }
 
   /**
    * Refreshes a specific file in the index
    */
   public async refreshFile(fileUri: vscode.Uri): Promise<void> {
-    await this.updateFileInDatabase(fileUri);
+    await this.enqueueUpdate(fileUri);
   }
 
   /**
@@ -159,6 +632,14 @@ export class IndexingService {
    */
   public async dispose(): Promise<void> {
     this.fileWatcherService.unregisterTypstCallback(INDEXING_SERVICE_ID);
+    this.fileWatcherService.unregisterRepositoryCallback(INDEXING_SERVICE_ID);
+    this.fileWatcherService.unregisterFileCallback(INDEXING_SERVICE_ID);
+    this.workspaceFoldersListener?.dispose();
+    this.trustListener?.dispose();
+    this.documentListeners.forEach((listener) => listener.dispose());
+    this.overlayTimers.forEach((timer) => clearTimeout(timer));
+    this.overlayTimers.clear();
+    this.queue.cancel();
     await this.dbService.dispose();
   }
 }
\ No newline at end of file
@@ -1,5 +1,6 @@
 import * as vscode from "vscode";
 import { DatabaseService } from "../indexing/dbService";
+import { LabelSearcher } from "../utils/labelSearcher";
 import { PathResolver } from "../utils/pathResolver";
 import { IndexingService } from "./indexingService";
 
@@ -7,6 +8,7 @@ export interface LinkInfo {
   sourceFile: string;
   targetFile: string;
   label?: string;
+  headingPath?: string[];
   range: vscode.Range;
   exists: boolean;
   labelExists?: boolean;
@@ -27,6 +29,11 @@ export class LinkDiscovery {
   private constructor() {
     this.indexingService = IndexingService.getInstance();
     this.dbService = this.indexingService.getDatabaseService();
+
+    // Unsaved edits change the links of their document and its targets, as
+    // do links re-resolved when a file they point at comes or goes
+    this.indexingService.onDidChangeOverlay(() => this.invalidateCache());
+    this.indexingService.onDidUpdateFile(() => this.invalidateCache());
   }
 
   public static getInstance(): LinkDiscovery {
@@ -40,17 +47,10 @@ export class LinkDiscovery {
   /**
    * Invalidates the entire cache
    */
-  private invalidateCache(): void {
+  public invalidateCache(): void {
     this.linkCache.clear();
   }
 
-  /**
-   * Invalidates cache for a specific file
-   */
-  private invalidateFile(filePath: string): void {
-    this.linkCache.delete(filePath);
-  }
-
   /**
    * Gets all links for a specific file
    */
@@ -61,8 +61,10 @@ export class LinkDiscovery {
       return this.linkCache.get(filePath)!;
     }
 
-    // Ensure file is indexed
-    await this.ensureFileIndexed(fileUri);
+    // Ensure file is indexed (assets have no links of their own)
+    if (PathResolver.isTypstFile(fileUri)) {
+      await this.ensureFileIndexed(fileUri);
+    }
 
     const forwardLinks = await this.getForwardLinks(fileUri);
     const backwardLinks = await this.getBackwardLinks(fileUri);
@@ -97,25 +99,25 @@ export class LinkDiscovery {
       const forwardLinks: LinkInfo[] = [];
 
       for (const link of fileData.wikilinks) {
-        const targetFilePath = PathResolver.ensureTypstExtension(
-          link.targetFile
-        );
-        const targetUri = PathResolver.resolveFilePath(fileUri, targetFilePath);
+        // Interwiki links have no file in the workspace
+        if (!link.resolvedTarget) {
+          continue;
+        }
+
+        const targetUri = vscode.Uri.file(link.resolvedTarget);
 
         const targetExists = await PathResolver.fileExists(targetUri);
         let labelExists: boolean | undefined;
 
-        if (targetExists && link.label) {
-          const targetLabels = await this.dbService.getLabelsInFile(
-            targetUri.fsPath
-          );
-          labelExists = targetLabels.some((label) => label.name === link.label);
+        if (targetExists && (link.label || link.headingPath)) {
+          labelExists = await this.anchorExists(targetUri.fsPath, link);
         }
 
         forwardLinks.push({
           sourceFile: fileUri.fsPath,
           targetFile: targetUri.fsPath,
           label: link.label,
+          headingPath: link.headingPath,
           range: new vscode.Range(
             link.range.start.line,
             link.range.start.character,
@@ -146,23 +148,23 @@ export class LinkDiscovery {
       for (const linkingFile of linkingFiles) {
         const sourceUri = vscode.Uri.file(linkingFile.filePath);
 
+        // A file can link to several notes, so keep only the links to this one
         for (const link of linkingFile.wikilinks) {
-          if (link.targetFile === fileUri.fsPath) {
+          if (
+            link.resolvedTarget &&
+            PathResolver.pathsEqual(link.resolvedTarget, fileUri.fsPath, sourceUri)
+          ) {
             let labelExists: boolean | undefined;
 
-            if (link.label) {
-              const targetLabels = await this.dbService.getLabelsInFile(
-                fileUri.fsPath
-              );
-              labelExists = targetLabels.some(
-                (label) => label.name === link.label
-              );
+            if (link.label || link.headingPath) {
+              labelExists = await this.anchorExists(fileUri.fsPath, link);
             }
 
             backwardLinks.push({
               sourceFile: linkingFile.filePath,
               targetFile: fileUri.fsPath,
               label: link.label,
+              headingPath: link.headingPath,
               range: new vscode.Range(
                 link.range.start.line,
                 link.range.start.character,
@@ -182,11 +184,28 @@ export class LinkDiscovery {
     }
   }
 
+  /**
+   * Checks whether the label or heading anchor of a link exists in the indexed target
+   */
+  private async anchorExists(
+    targetFile: string,
+    link: { label?: string; headingPath?: string[] }
+  ): Promise<boolean> {
+    if (link.headingPath) {
+      const headings = await this.dbService.getHeadingsInFile(targetFile);
+      return LabelSearcher.matchHeadingPath(headings, link.headingPath) !== undefined;
+    }
+
+    const targetLabels = await this.dbService.getLabelsInFile(targetFile);
+    return targetLabels.some((label) => label.name === link.label);
+  }
+
   /**
    * Refreshes the cache for a specific file
    */
   public async refreshFile(fileUri: vscode.Uri): Promise<void> {
-    this.invalidateFile(fileUri.fsPath);
+    // Any cached file (including assets) may have gained or lost a backlink
+    this.invalidateCache();
     await this.indexingService.refreshFile(fileUri);
   }
 
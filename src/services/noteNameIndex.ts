@@ -0,0 +1,136 @@
+import * as path from "path";
+
+/**
+ * In-memory index of note basenames, used to resolve bare wiki link names
+ * (e.g. [[meeting-notes]]) against every note in the workspace. Names are
+ * keyed case-folded and NFC-composed; lookups pick the case sensitivity.
+ */
+export class NoteNameIndex {
+  private static instance: NoteNameIndex;
+  private notesByName: Map<string, Set<string>> = new Map();
+
+  private constructor() {}
+
+  public static getInstance(): NoteNameIndex {
+    if (!NoteNameIndex.instance) {
+      NoteNameIndex.instance = new NoteNameIndex();
+    }
+    return NoteNameIndex.instance;
+  }
+
+  public addFile(filePath: string): void {
+    const name = this.getNoteName(filePath);
+    let notes = this.notesByName.get(name);
+    if (!notes) {
+      notes = new Set();
+      this.notesByName.set(name, notes);
+    }
+    notes.add(filePath);
+  }
+
+  public removeFile(filePath: string): void {
+    const name = this.getNoteName(filePath);
+    const notes = this.notesByName.get(name);
+    notes?.delete(filePath);
+    if (notes?.size === 0) {
+      this.notesByName.delete(name);
+    }
+  }
+
+  public has(filePath: string): boolean {
+    const notes = this.notesByName.get(this.getNoteName(filePath));
+    return notes?.has(filePath) ?? false;
+  }
+
+  public clear(): void {
+    this.notesByName.clear();
+  }
+
+  /**
+   * Gets the notes a link path can refer to: every note whose path ends with
+   * the link path, sorted so the shortest path comes first
+   */
+  public getCandidates(linkPath: string, caseSensitive: boolean): string[] {
+    const segments = this.toSegments(linkPath);
+    const notes = this.notesByName.get(
+      this.toKey(segments[segments.length - 1] ?? "")
+    );
+    if (!notes) {
+      return [];
+    }
+
+    return Array.from(notes)
+      .filter((filePath) =>
+        this.endsWithSegments(filePath, segments, caseSensitive)
+      )
+      .sort((a, b) => a.length - b.length || a.localeCompare(b));
+  }
+
+  /**
+   * Gets the shortest link path (without extension) that resolves to the
+   * note unambiguously, e.g. "meeting-notes" or "projects/meeting-notes"
+   */
+  public getShortestLinkPath(filePath: string, caseSensitive: boolean): string {
+    const segments = this.toSegments(filePath);
+
+    for (let length = 1; length < segments.length; length++) {
+      const linkPath = segments.slice(-length).join("/");
+      const candidates = this.getCandidates(linkPath, caseSensitive);
+      if (candidates.length === 1 && candidates[0] === filePath) {
+        return linkPath;
+      }
+    }
+
+    return segments.join("/");
+  }
+
+  /**
+   * Lists indexed notes whose name contains the query
+   */
+  public searchNotes(query: string): string[] {
+    const key = this.toKey(query);
+    const results: string[] = [];
+
+    for (const [name, notes] of this.notesByName) {
+      if (name.includes(key)) {
+        results.push(...notes);
+      }
+    }
+
+    return results.sort();
+  }
+
+  private getNoteName(filePath: string): string {
+    return this.toKey(path.basename(filePath).replace(/\.typ$/, ""));
+  }
+
+  private toKey(name: string): string {
+    return name.normalize("NFC").toLowerCase();
+  }
+
+  private toSegments(filePath: string): string[] {
+    return filePath
+      .replace(/\.typ$/, "")
+      .split(/[/\\]/)
+      .filter((segment) => segment !== "" && segment !== ".");
+  }
+
+  private endsWithSegments(
+    filePath: string,
+    segments: string[],
+    caseSensitive: boolean
+  ): boolean {
+    const fileSegments = this.toSegments(filePath);
+    if (segments.length > fileSegments.length) {
+      return false;
+    }
+
+    const normalize = (segment: string) =>
+      caseSensitive ? segment.normalize("NFC") : this.toKey(segment);
+    const offset = fileSegments.length - segments.length;
+    return segments.every(
+      (segment, index) =>
+        normalize(fileSegments[offset + index]) === normalize(segment)
+    );
+  }
+}
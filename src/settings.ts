@@ -3,13 +3,28 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import { FileWatcherService } from './services/fileWatcherService';
+import { PathResolver } from './utils/pathResolver';
 
 const SETTINGS_SERVICE_ID = 'settings-manager';
 
 export const SettingsSchema = z.object({
   'wiki-links': z.object({
     enabled: z.boolean().default(true),
-    'file-extensions': z.array(z.string()).default(['.typ']),
+    'file-extensions': z.array(z.string()).default([
+      '.typ',
+      '.png',
+      '.jpg',
+      '.jpeg',
+      '.gif',
+      '.svg',
+      '.pdf',
+      '.bib',
+      '.csv',
+      '.json',
+      '.yaml',
+      '.toml'
+    ]),
+    'resolution-mode': z.enum(['relative', 'shortest']).default('relative'),
     'max-depth': z.number().min(1).max(10).default(5),
     'ignore-patterns': z.array(z.string()).default([
       'node_modules/**',
@@ -21,7 +36,7 @@ export const SettingsSchema = z.object({
     'allow-absolute-paths': z.boolean().default(true),
     'create-missing-files': z.boolean().default(true),
     'template-file': z.string().optional()
-  }),
+  }).default({}),
   labels: z.object({
     enabled: z.boolean().default(true),
     'detect-headings': z.boolean().default(true),
@@ -29,41 +44,59 @@ export const SettingsSchema = z.object({
     'heading-levels': z.array(z.number()).default([1, 2, 3, 4, 5, 6]),
     'label-pattern': z.string().default('<([^>]+)>'),
     'allow-duplicate-labels': z.boolean().default(false)
-  }),
+  }).default({}),
   diagnostics: z.object({
     enabled: z.boolean().default(true),
     'update-delay': z.number().min(100).max(5000).default(500),
     'show-missing-file-warnings': z.boolean().default(true),
     'show-missing-label-warnings': z.boolean().default(true),
     severity: z.enum(['error', 'warning', 'info']).default('warning')
-  }),
+  }).default({}),
   completion: z.object({
     enabled: z.boolean().default(true),
     'trigger-characters': z.array(z.string()).default(['[', ':']),
     'max-suggestions': z.number().min(1).max(50).default(20),
     'show-file-icons': z.boolean().default(true),
     'include-file-content-preview': z.boolean().default(false)
-  }),
+  }).default({}),
   'find-references': z.object({
     enabled: z.boolean().default(true),
     'include-headings': z.boolean().default(true),
     'include-labels': z.boolean().default(true),
     'max-results': z.number().min(1).max(1000).default(100)
-  }),
+  }).default({}),
+  typst: z.object({
+    // Path of the typst binary, or a command on PATH
+    binary: z.string().default('typst'),
+    // Passed as `--input key=value`, readable in documents via `sys.inputs`
+    inputs: z.record(z.string(), z.string()).default({}),
+    'query-timeout': z.number().min(1000).max(120000).default(10000)
+  }).default({}),
+  indexing: z.object({
+    // Files indexed at once, each running its own `typst query` process
+    concurrency: z.number().min(1).max(16).default(4)
+  }).default({}),
+  // Interwiki prefixes and their URL templates, e.g. gh = "https://github.com/{}"
+  interwiki: z.record(z.string(), z.string()).default({}),
   ui: z.object({
     'show-backlinks': z.boolean().default(true),
     'show-forward-links': z.boolean().default(true),
     'link-decorations': z.boolean().default(true),
     'hover-preview': z.boolean().default(true),
     'preview-max-lines': z.number().min(1).max(100).default(10)
-  })
+  }).default({})
 });
 
 export type Settings = z.infer<typeof SettingsSchema>;
 
+// Every section has a default, so the settings of a folder without (or with
+// an invalid) settings file are the schema's defaults
+export const DEFAULT_SETTINGS: Settings = SettingsSchema.parse({});
+
 export class SettingsManager {
   private static instance: SettingsManager;
-  private settings: Settings | null = null;
+  // Settings of each repository folder, keyed by the folder's path
+  private settings: Map<string, Settings> = new Map();
   private fileWatcherService: FileWatcherService;
   private onSettingsChangedEmitter = new vscode.EventEmitter<Settings>();
 
@@ -80,76 +113,127 @@ export class SettingsManager {
     return SettingsManager.instance;
   }
 
+  /**
+   * Loads the settings file of every repository folder
+   */
   public async loadSettings(): Promise<Settings> {
-    const settingsPath = await this.findSettingsFile();
-    
-    if (settingsPath && fs.existsSync(settingsPath)) {
+    this.settings.clear();
+
+    for (const folder of PathResolver.getRepositoryFolders()) {
+      await this.loadFolderSettings(folder.uri.fsPath);
+    }
+
+    this.setupWatcher();
+    return this.getSettingsOrDefaults();
+  }
+
+  private async loadFolderSettings(folderPath: string): Promise<Settings> {
+    const settingsPath = this.getSettingsPath(folderPath);
+
+    if (fs.existsSync(settingsPath)) {
       try {
         const content = fs.readFileSync(settingsPath, 'utf-8');
         const { parse } = await import('smol-toml');
         const parsed = parse(content);
         const result = SettingsSchema.parse(parsed);
-        this.settings = result;
-        this.setupWatcher(settingsPath);
+        this.settings.set(folderPath, result);
         return result;
       } catch (error) {
-        console.error('Failed to load settings:', error);
+        console.error(`Failed to load settings from ${settingsPath}:`, error);
         vscode.window.showErrorMessage(
-          'Invalid settings file. Using default settings.',
+          `Invalid settings file in ${path.basename(folderPath)}. Using default settings.`,
           'Open Settings'
         ).then(selection => {
           if (selection === 'Open Settings') {
-            this.openSettingsFile();
+            this.openSettingsFile(vscode.Uri.file(settingsPath));
           }
         });
       }
     }
 
-    this.settings = SettingsSchema.parse({});
-    return this.settings;
+    this.settings.set(folderPath, DEFAULT_SETTINGS);
+    return DEFAULT_SETTINGS;
   }
 
-  public getSettings(): Settings {
-    if (!this.settings) {
+  /**
+   * Gets the settings of the repository folder containing `uri`, or of the
+   * first repository folder
+   */
+  public getSettings(uri?: vscode.Uri): Settings {
+    const folderPath = this.getFolderPath(uri);
+    const settings = folderPath ? this.settings.get(folderPath) : undefined;
+    if (!settings) {
       throw new Error('Settings not loaded. Call loadSettings() first.');
     }
-    return this.settings;
+    return settings;
+  }
+
+  /**
+   * Gets the loaded settings, or the defaults while they are still loading
+   */
+  public getSettingsOrDefaults(uri?: vscode.Uri): Settings {
+    const folderPath = this.getFolderPath(uri);
+    return (
+      (folderPath ? this.settings.get(folderPath) : undefined) ?? DEFAULT_SETTINGS
+    );
   }
 
   public async reloadSettings(): Promise<Settings> {
     return this.loadSettings();
   }
 
-  public async openSettingsFile(): Promise<void> {
-    const settingsPath = await this.getSettingsPath();
-    const uri = vscode.Uri.file(settingsPath);
-    
+  /**
+   * Opens the settings file of a folder, asking which one when several
+   * repository folders are open
+   */
+  public async openSettingsFile(uri?: vscode.Uri): Promise<void> {
+    const folderPath = await this.pickFolderPath(uri);
+    if (!folderPath) {
+      return;
+    }
+
+    const settingsPath = this.getSettingsPath(folderPath);
     if (!fs.existsSync(settingsPath)) {
       await this.createDefaultSettingsFile(settingsPath);
     }
-    
-    const doc = await vscode.workspace.openTextDocument(uri);
+
+    const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(settingsPath));
     await vscode.window.showTextDocument(doc);
   }
 
-  private async findSettingsFile(): Promise<string | null> {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders || workspaceFolders.length === 0) {
-      return null;
+  private getFolderPath(uri?: vscode.Uri): string | undefined {
+    const folder = uri ? vscode.workspace.getWorkspaceFolder(uri) : undefined;
+    if (folder && this.settings.has(folder.uri.fsPath)) {
+      return folder.uri.fsPath;
     }
-
-    const primaryFolder = workspaceFolders[0];
-    const settingsPath = path.join(primaryFolder.uri.fsPath, '.typst-oxide', 'settings.toml');
-    
-    return settingsPath;
+    return this.settings.keys().next().value;
   }
 
-  private async getSettingsPath(): Promise<string> {
-    const settingsPath = await this.findSettingsFile();
-    if (!settingsPath) {
+  private async pickFolderPath(uri?: vscode.Uri): Promise<string | undefined> {
+    const folder =
+      (uri && vscode.workspace.getWorkspaceFolder(uri)) ||
+      (vscode.window.activeTextEditor &&
+        vscode.workspace.getWorkspaceFolder(vscode.window.activeTextEditor.document.uri));
+    if (folder) {
+      return folder.uri.fsPath;
+    }
+
+    const folders = PathResolver.getRepositoryFolders();
+    if (folders.length === 0) {
       throw new Error('No workspace folder found');
     }
-    return settingsPath;
+    if (folders.length === 1) {
+      return folders[0].uri.fsPath;
+    }
+
+    const picked = await vscode.window.showWorkspaceFolderPick({
+      placeHolder: 'Select the folder whose settings to open'
+    });
+    return picked?.uri.fsPath;
+  }
+
+  private getSettingsPath(folderPath: string): string {
+    return path.join(folderPath, '.typst-oxide', 'settings.toml');
   }
 
   private async createDefaultSettingsFile(settingsPath: string): Promise<void> {
@@ -158,9 +242,8 @@ export class SettingsManager {
       fs.mkdirSync(dir, { recursive: true });
     }
 
-    const defaultSettings = SettingsSchema.parse({});
     const { stringify } = await import('smol-toml');
-    const tomlContent = stringify(defaultSettings);
+    const tomlContent = stringify(DEFAULT_SETTINGS);
     
     const header = `# Typst Oxide Settings
 # This file configures the Typst Oxide extension behavior.
@@ -171,31 +254,28 @@ export class SettingsManager {
     fs.writeFileSync(settingsPath, header + tomlContent);
   }
 
-  private setupWatcher(settingsPath: string): void {
+  private setupWatcher(): void {
     this.fileWatcherService.unregisterSettingsCallback(SETTINGS_SERVICE_ID);
 
-    const settingsUri = vscode.Uri.file(settingsPath);
-    
+    // settings.toml lives in <folder>/.typst-oxide/
+    const getFolderPath = (uri: vscode.Uri) =>
+      path.dirname(path.dirname(uri.fsPath));
+
+    const reloadFolder = async (uri: vscode.Uri) => {
+      try {
+        const settings = await this.loadFolderSettings(getFolderPath(uri));
+        this.onSettingsChangedEmitter.fire(settings);
+      } catch (error) {
+        console.error('Failed to reload settings:', error);
+      }
+    };
+
     this.fileWatcherService.registerSettingsCallback(SETTINGS_SERVICE_ID, {
-      onDidChange: async () => {
-        try {
-          await this.reloadSettings();
-          this.onSettingsChangedEmitter.fire(this.settings!);
-        } catch (error) {
-          console.error('Failed to reload settings:', error);
-        }
-      },
-      onDidCreate: async () => {
-        try {
-          await this.reloadSettings();
-          this.onSettingsChangedEmitter.fire(this.settings!);
-        } catch (error) {
-          console.error('Failed to reload settings:', error);
-        }
-      },
-      onDidDelete: () => {
-        this.settings = SettingsSchema.parse({});
-        this.onSettingsChangedEmitter.fire(this.settings);
+      onDidChange: reloadFolder,
+      onDidCreate: reloadFolder,
+      onDidDelete: (uri) => {
+        this.settings.set(getFolderPath(uri), DEFAULT_SETTINGS);
+        this.onSettingsChangedEmitter.fire(DEFAULT_SETTINGS);
       },
     });
   }
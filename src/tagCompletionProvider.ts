@@ -0,0 +1,50 @@
+import * as vscode from "vscode";
+import { DatabaseService } from "./indexing/dbService";
+import { TagScanner } from "./utils/tagScanner";
+
+// Closes the string being typed so the scanner sees a complete tag
+const SENTINEL = 'x")';
+
+export class TagCompletionProvider implements vscode.CompletionItemProvider {
+  /**
+   * Completes the tags used in the workspace inside a string of the `tags`
+   * or `keywords` metadata fields, or of a `#tag("...")` marker
+   */
+  async provideCompletionItems(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): Promise<vscode.CompletionItem[] | undefined> {
+    const offset = document.offsetAt(position);
+    const text = document.getText(new vscode.Range(new vscode.Position(0, 0), position));
+
+    // The string being typed ends at the sentinel if it holds a tag
+    const occurrence = TagScanner.findTags(text + SENTINEL).find(
+      (occurrence) => occurrence.end === offset + 1
+    );
+    if (!occurrence) {
+      return undefined;
+    }
+
+    try {
+      const tags = await DatabaseService.getInstance().getAllTags();
+      const range = new vscode.Range(document.positionAt(occurrence.start), position);
+
+      return Array.from(tags)
+        .sort((a, b) => b[1].length - a[1].length || a[0].localeCompare(b[0]))
+        .map(([tag, files], index) => {
+          const item = new vscode.CompletionItem(
+            tag,
+            vscode.CompletionItemKind.EnumMember
+          );
+          item.detail = `${files.length} ${files.length === 1 ? "note" : "notes"}`;
+          item.range = range;
+          // Most used tags first
+          item.sortText = String(index).padStart(5, "0");
+          return item;
+        });
+    } catch (error) {
+      console.error("Error providing tag completions:", error);
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,197 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { DatabaseService } from "./indexing/dbService";
+import { IndexingService } from "./services/indexingService";
+import { PathResolver } from "./utils/pathResolver";
+import { TagScanner } from "./utils/tagScanner";
+import { TagUpdater } from "./utils/tagUpdater";
+
+// Coalesces the refreshes caused by a burst of index updates
+const REFRESH_DELAY = 500;
+
+type TagTreeElement = TagItem | TaggedNoteItem;
+
+/**
+ * Lists the tags of the workspace as a hierarchy (`project/alpha` under
+ * `project`), with the notes of each tag, and renames tags across notes
+ */
+export class TagTreeProvider implements vscode.TreeDataProvider<TagTreeElement> {
+  private _onDidChangeTreeData: vscode.EventEmitter<
+    TagTreeElement | undefined | null | void
+  > = new vscode.EventEmitter<TagTreeElement | undefined | null | void>();
+  readonly onDidChangeTreeData: vscode.Event<
+    TagTreeElement | undefined | null | void
+  > = this._onDidChangeTreeData.event;
+
+  // Tag → tagged files, loaded when the root is listed
+  private tags: Map<string, string[]> = new Map();
+  private refreshTimer: NodeJS.Timeout | undefined;
+
+  constructor(private context: vscode.ExtensionContext) {}
+
+  register(): void {
+    const indexingService = IndexingService.getInstance();
+
+    this.context.subscriptions.push(
+      vscode.window.registerTreeDataProvider("typst-oxide.tags", this),
+      vscode.commands.registerCommand("typst-oxide.renameTag", (item?: TagItem) =>
+        this.renameTag(item?.tag)
+      ),
+      indexingService.onDidUpdateFile(() => this.scheduleRefresh()),
+      indexingService.onDidChangeOverlay(() => this.scheduleRefresh()),
+      this._onDidChangeTreeData,
+      { dispose: () => clearTimeout(this.refreshTimer) }
+    );
+  }
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire();
+  }
+
+  getTreeItem(element: TagTreeElement): vscode.TreeItem {
+    return element;
+  }
+
+  async getChildren(element?: TagTreeElement): Promise<TagTreeElement[]> {
+    if (element instanceof TaggedNoteItem) {
+      return [];
+    }
+    if (!element) {
+      try {
+        this.tags = await DatabaseService.getInstance().getAllTags();
+      } catch (error) {
+        console.error("Failed to load tags:", error);
+        this.tags = new Map();
+      }
+    }
+
+    const parent = element?.tag;
+    const childTags = new Set<string>();
+    for (const tag of this.tags.keys()) {
+      if (parent === undefined) {
+        childTags.add(tag.split("/")[0]);
+      } else if (tag.startsWith(`${parent}/`)) {
+        childTags.add(`${parent}/${tag.slice(parent.length + 1).split("/")[0]}`);
+      }
+    }
+
+    const items: TagTreeElement[] = Array.from(childTags)
+      .sort()
+      .map((tag) => new TagItem(tag, this.countNotes(tag)));
+
+    if (parent !== undefined) {
+      items.push(
+        ...(this.tags.get(parent) ?? [])
+          .slice()
+          .sort()
+          .map((filePath) => new TaggedNoteItem(filePath))
+      );
+    }
+    return items;
+  }
+
+  /**
+   * Renames a tag and its descendants everywhere they are written, asking
+   * for the tag when none is given
+   */
+  async renameTag(tag?: string): Promise<void> {
+    if (!tag) {
+      const tags = Array.from(
+        (await DatabaseService.getInstance().getAllTags()).keys()
+      ).sort();
+      if (tags.length === 0) {
+        vscode.window.showInformationMessage("No tags found in the workspace");
+        return;
+      }
+      tag = await vscode.window.showQuickPick(tags, {
+        placeHolder: "Select the tag to rename",
+      });
+      if (!tag) {
+        return;
+      }
+    }
+
+    const input = await vscode.window.showInputBox({
+      prompt: `Rename #${tag} (and its child tags) in every note`,
+      value: tag,
+      validateInput: (value) => TagUpdater.validateTagName(value),
+    });
+    const newTag = input?.trim().replace(/^#/, "");
+    if (!newTag || TagScanner.normalize(newTag) === tag) {
+      return;
+    }
+
+    try {
+      const result = await TagUpdater.createRenameEdit(tag, newTag);
+      if (result.occurrences > 0 && !(await vscode.workspace.applyEdit(result.edit))) {
+        throw new Error("The edit could not be applied");
+      }
+
+      vscode.window.showInformationMessage(
+        `Renamed #${tag} to #${newTag} in ${result.files} ${
+          result.files === 1 ? "note" : "notes"
+        }`
+      );
+      if (result.skipped.length > 0) {
+        vscode.window.showWarningMessage(
+          `#${tag} is set by code in ${result.skipped
+            .map((filePath) => path.basename(filePath))
+            .join(", ")}; update it there by hand`
+        );
+      }
+    } catch (error) {
+      console.error("Failed to rename tag:", error);
+      vscode.window.showErrorMessage(`Failed to rename tag: ${error}`);
+    }
+  }
+
+  /**
+   * Counts the notes with a tag or one of its descendants
+   */
+  private countNotes(tag: string): number {
+    const files = new Set<string>();
+    for (const [fileTag, filePaths] of this.tags) {
+      if (TagScanner.isSameOrChild(fileTag, tag)) {
+        filePaths.forEach((filePath) => files.add(filePath));
+      }
+    }
+    return files.size;
+  }
+
+  private scheduleRefresh(): void {
+    clearTimeout(this.refreshTimer);
+    this.refreshTimer = setTimeout(() => this.refresh(), REFRESH_DELAY);
+  }
+}
+
+/**
+ * A tag, labelled with its last segment and described by its note count
+ */
+export class TagItem extends vscode.TreeItem {
+  constructor(public readonly tag: string, count: number) {
+    super(tag.split("/").pop() ?? tag, vscode.TreeItemCollapsibleState.Collapsed);
+    this.description = `${count}`;
+    this.tooltip = `#${tag}: ${count} ${count === 1 ? "note" : "notes"}`;
+    this.iconPath = new vscode.ThemeIcon("tag");
+    this.contextValue = "tag";
+  }
+}
+
+/**
+ * A note with a tag
+ */
+export class TaggedNoteItem extends vscode.TreeItem {
+  constructor(public readonly filePath: string) {
+    const uri = vscode.Uri.file(filePath);
+    super(path.basename(filePath, ".typ"), vscode.TreeItemCollapsibleState.None);
+    this.description = PathResolver.getWorkspaceRelativePath(uri);
+    this.resourceUri = uri;
+    this.iconPath = new vscode.ThemeIcon("file");
+    this.contextValue = "taggedNote";
+    this.command = {
+      command: "vscode.open",
+      title: "Open Note",
+      arguments: [uri],
+    };
+  }
+}
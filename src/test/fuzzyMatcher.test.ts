@@ -0,0 +1,20 @@
+import * as assert from "assert";
+import { FuzzyMatcher } from "../utils/fuzzyMatcher";
+
+suite("Fuzzy Matcher Test Suite", () => {
+  test("Should match every query word in order", () => {
+    assert.notStrictEqual(FuzzyMatcher.score("vsp", "Vector Spaces"), undefined);
+    assert.notStrictEqual(FuzzyMatcher.score("spa vec", "Vector Spaces"), undefined);
+    assert.strictEqual(FuzzyMatcher.score("vsx", "Vector Spaces"), undefined);
+    assert.strictEqual(FuzzyMatcher.score("", "Vector Spaces"), 0);
+  });
+
+  test("Should rank prefixes and word starts higher", () => {
+    const prefix = FuzzyMatcher.score("meet", "Meeting notes")!;
+    const inner = FuzzyMatcher.score("meet", "Team meetup")!;
+    const scattered = FuzzyMatcher.score("meet", "My elephant tent")!;
+
+    assert.ok(prefix > inner, `${prefix} > ${inner}`);
+    assert.ok(inner > scattered, `${inner} > ${scattered}`);
+  });
+});
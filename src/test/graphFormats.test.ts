@@ -0,0 +1,66 @@
+import * as assert from "assert";
+import { GraphFormats } from "../export/graphFormats";
+import { LinkGraph } from "../export/linkGraph";
+
+const graph: LinkGraph = {
+  nodes: [
+    {
+      id: "notes/a.typ",
+      kind: "note",
+      title: 'Say "hi" & <wave>',
+      metadata: { title: 'Say "hi" & <wave>' },
+      aliases: ["a"],
+      tags: ["project/alpha"],
+    },
+    {
+      id: "notes/missing.typ",
+      kind: "missing",
+      title: "notes/missing.typ",
+      aliases: [],
+      tags: [],
+    },
+  ],
+  edges: [
+    {
+      source: "notes/a.typ",
+      target: "notes/missing.typ",
+      label: "intro, part 1",
+      embed: false,
+      broken: true,
+    },
+  ],
+};
+
+suite("Graph Formats Test Suite", () => {
+  test("Should quote CSV cells with commas", () => {
+    assert.strictEqual(
+      GraphFormats.toCsv(graph),
+      "source,target,label,alias,embed,broken\r\n" +
+        'notes/a.typ,notes/missing.typ,"intro, part 1",,false,true\r\n'
+    );
+  });
+
+  test("Should escape GraphML and DOT values", () => {
+    const graphml = GraphFormats.toGraphML(graph);
+    assert.ok(
+      graphml.includes(
+        '<data key="n_title">Say &quot;hi&quot; &amp; &lt;wave&gt;</data>'
+      )
+    );
+    assert.ok(
+      graphml.includes('<edge source="notes/a.typ" target="notes/missing.typ">')
+    );
+
+    const dot = GraphFormats.toDot(graph);
+    assert.ok(
+      dot.includes(
+        '"notes/a.typ" [label="Say \\"hi\\" & <wave>", tooltip="#project/alpha"];'
+      )
+    );
+    assert.ok(
+      dot.includes(
+        '"notes/a.typ" -> "notes/missing.typ" [label="intro, part 1", style=dashed, color=red];'
+      )
+    );
+  });
+});
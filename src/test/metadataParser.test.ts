@@ -0,0 +1,57 @@
+import * as assert from "assert";
+import { MetadataParser } from "../utils/metadataParser";
+
+suite("Metadata Parser Test Suite", () => {
+  test("Should parse #meta named arguments", () => {
+    const result = MetadataParser.parse('#meta(alias: ["alias1", "alias2", "main"])');
+    assert.deepStrictEqual(result, {
+      value: { alias: ["alias1", "alias2", "main"] },
+      complete: true,
+    });
+  });
+
+  test("Should parse a literal #metadata dictionary", () => {
+    const result = MetadataParser.parse(
+      '#metadata((title: "Notes", count: 3, draft: false, tags: ("a",), nested: (key: "value")))'
+    );
+    assert.deepStrictEqual(result, {
+      value: {
+        title: "Notes",
+        count: 3,
+        draft: false,
+        tags: ["a"],
+        nested: { key: "value" },
+      },
+      complete: true,
+    });
+  });
+
+  test("Should mark metadata with non-literal values as incomplete", () => {
+    const result = MetadataParser.parse(
+      '#meta(title: "Notes", parent: [[other.typ]], date: datetime.today())'
+    );
+    assert.deepStrictEqual(result, {
+      value: { title: "Notes" },
+      complete: false,
+    });
+  });
+
+  test("Should return null without a metadata call", () => {
+    assert.strictEqual(MetadataParser.parse("= Heading\n\nSome text"), null);
+  });
+
+  test("Should skip metadata calls in comments, strings and raw text", () => {
+    const result = MetadataParser.parse(
+      [
+        '// #meta(title: "Comment")',
+        '#let example = "#meta(title: \\"String\\")"',
+        '`#meta(title: "Raw")`',
+        '#meta(title: "Notes")',
+      ].join("\n")
+    );
+    assert.deepStrictEqual(result, {
+      value: { title: "Notes" },
+      complete: true,
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import * as assert from "assert";
+import { QueryParser } from "../query/queryParser";
+
+suite("Query Parser Test Suite", () => {
+  test("Should parse every clause", () => {
+    const query = QueryParser.parse(
+      'FROM "projects" WHERE status = "active" SORT date DESC, title LIMIT 10'
+    );
+
+    assert.deepStrictEqual(query, {
+      from: { type: "folder", path: "projects" },
+      where: {
+        type: "compare",
+        operator: "=",
+        left: { type: "field", path: ["status"] },
+        right: { type: "literal", value: "active" },
+      },
+      sort: [
+        { field: ["date"], descending: true },
+        { field: ["title"], descending: false },
+      ],
+      limit: 10,
+    });
+  });
+
+  test("Should parse tags, links and boolean operators", () => {
+    const query = QueryParser.parse(
+      "from #project and -[[archive]] where linkedFrom([[index#Active]]) or not draft"
+    );
+
+    assert.deepStrictEqual(query.from, {
+      type: "and",
+      left: { type: "tag", tag: "project" },
+      right: { type: "not", operand: { type: "links-to", target: "archive" } },
+    });
+    assert.deepStrictEqual(query.where, {
+      type: "or",
+      left: { type: "linked-from", source: "index" },
+      right: {
+        type: "not",
+        operand: { type: "truthy", operand: { type: "field", path: ["draft"] } },
+      },
+    });
+  });
+
+  test("Should parse dates, numbers and nested fields", () => {
+    const query = QueryParser.parse(
+      "WHERE date >= 2024-01-01 AND project.priority < 3 AND tags contains #urgent"
+    );
+
+    assert.deepStrictEqual(query.where, {
+      type: "and",
+      left: {
+        type: "and",
+        left: {
+          type: "compare",
+          operator: ">=",
+          left: { type: "field", path: ["date"] },
+          right: { type: "literal", value: "2024-01-01" },
+        },
+        right: {
+          type: "compare",
+          operator: "<",
+          left: { type: "field", path: ["project", "priority"] },
+          right: { type: "literal", value: 3 },
+        },
+      },
+      right: {
+        type: "compare",
+        operator: "contains",
+        left: { type: "field", path: ["tags"] },
+        right: { type: "literal", value: "urgent" },
+      },
+    });
+  });
+
+  test("Should report syntax errors with their position", () => {
+    assert.throws(() => QueryParser.parse("WHERE status ="), /position 15/);
+    assert.throws(() => QueryParser.parse("LIMIT 5 FROM #a"), /out of place/);
+    assert.throws(() => QueryParser.parse('FROM "unterminated'), /Unterminated/);
+  });
+
+  test("Should read a query starting with a condition as WHERE", () => {
+    assert.deepStrictEqual(QueryParser.parse("#paper SORT date"), {
+      where: { type: "tag", tag: "paper" },
+      sort: [{ field: ["date"], descending: false }],
+    });
+  });
+
+  test("Should accept an empty query", () => {
+    assert.deepStrictEqual(QueryParser.parse(""), { sort: [] });
+  });
+});
@@ -0,0 +1,37 @@
+import * as assert from "assert";
+import { SearchTokenizer } from "../search/searchTokenizer";
+import { WikiLinkTokenizer } from "../utils/wikiLinkTokenizer";
+
+suite("Search Tokenizer Test Suite", () => {
+  test("Should lowercase words and split CJK text into bigrams", () => {
+    assert.deepStrictEqual(
+      SearchTokenizer.tokenize("Vector Spaces: 全文検索 a 3 中").map(
+        (token) => token.term
+      ),
+      ["vector", "spaces", "全文", "文検", "検索", "3", "中"]
+    );
+  });
+
+  test("Should keep offsets of CJK bigrams next to words", () => {
+    const text = "BM25ランキング";
+    const tokens = SearchTokenizer.tokenize(text);
+    assert.strictEqual(tokens[0].term, "bm25");
+    assert.strictEqual(text.slice(tokens[1].start, tokens[1].end), "ラン");
+  });
+
+  test("Should only keep the markup text of a document", () => {
+    const text = [
+      '#let x = "hidden"',
+      "= Title with $x^2$ math",
+      "// a comment",
+      "Body `raw` #emph[shown] text",
+    ].join("\n");
+    const markup = WikiLinkTokenizer.extractMarkupText(text);
+
+    assert.strictEqual(markup.length, text.length);
+    assert.deepStrictEqual(
+      SearchTokenizer.tokenize(markup).map((token) => token.term),
+      ["title", "with", "math", "body", "shown", "text"]
+    );
+  });
+});
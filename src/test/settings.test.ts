@@ -0,0 +1,17 @@
+import * as assert from "assert";
+import { DEFAULT_SETTINGS, SettingsSchema } from "../settings";
+
+suite("Settings Test Suite", () => {
+  test("Should default every section of an empty settings file", () => {
+    assert.strictEqual(DEFAULT_SETTINGS["wiki-links"]["resolution-mode"], "relative");
+    assert.strictEqual(DEFAULT_SETTINGS.diagnostics.enabled, true);
+    assert.deepStrictEqual(DEFAULT_SETTINGS.interwiki, {});
+  });
+
+  test("Should default the missing keys of a partial section", () => {
+    const settings = SettingsSchema.parse({ "wiki-links": { "case-sensitive": true } });
+    assert.strictEqual(settings["wiki-links"]["case-sensitive"], true);
+    assert.strictEqual(settings["wiki-links"]["resolution-mode"], "relative");
+    assert.strictEqual(settings.completion["max-suggestions"], 20);
+  });
+});
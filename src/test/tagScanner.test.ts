@@ -0,0 +1,35 @@
+import * as assert from "assert";
+import { TagScanner } from "../utils/tagScanner";
+
+suite("Tag Scanner Test Suite", () => {
+  test("Should find metadata and inline tags", () => {
+    const text = [
+      '#meta(alias: ["main"], tags: ("#Project/Alpha", "reading"), keywords: "ml")',
+      '= Notes #tag("inbox")',
+    ].join("\n");
+
+    const occurrences = TagScanner.findTags(text);
+    assert.deepStrictEqual(
+      occurrences.map((occurrence) => occurrence.tag),
+      ["project/alpha", "reading", "ml", "inbox"]
+    );
+    assert.strictEqual(
+      text.slice(occurrences[0].start, occurrences[0].end),
+      "Project/Alpha"
+    );
+    assert.strictEqual(occurrences[3].inline, true);
+  });
+
+  test("Should skip tags in comments and raw text", () => {
+    const text = '// #tag("hidden")\n`#tag("code")` #tag("shown")';
+    assert.deepStrictEqual(
+      TagScanner.findTags(text).map((occurrence) => occurrence.tag),
+      ["shown"]
+    );
+  });
+
+  test("Should match child tags", () => {
+    assert.ok(TagScanner.isSameOrChild("project/alpha", "project"));
+    assert.ok(!TagScanner.isSameOrChild("projects", "project"));
+  });
+});
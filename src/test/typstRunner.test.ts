@@ -0,0 +1,58 @@
+import * as assert from "assert";
+import { TypstRunner } from "../utils/typstRunner";
+
+suite("Typst Runner Test Suite", () => {
+  test("Should parse an error with its location", () => {
+    const stderr = [
+      "error: unknown variable: foo",
+      "  ┌─ notes/alpha.typ:3:2",
+      "  │",
+      "3 │ #foo",
+      "  │  ^^^",
+      "",
+    ].join("\n");
+    assert.deepStrictEqual(TypstRunner.parseDiagnostics(stderr), [
+      {
+        severity: "error",
+        message: "unknown variable: foo",
+        file: "notes/alpha.typ",
+        line: 3,
+        column: 2,
+      },
+    ]);
+  });
+
+  test("Should parse a warning without a location", () => {
+    const stderr = "warning: no text within stars\nerror: file not found\n";
+    assert.deepStrictEqual(TypstRunner.parseDiagnostics(stderr), [
+      {
+        severity: "warning",
+        message: "no text within stars",
+        file: undefined,
+        line: undefined,
+        column: undefined,
+      },
+      {
+        severity: "error",
+        message: "file not found",
+        file: undefined,
+        line: undefined,
+        column: undefined,
+      },
+    ]);
+  });
+
+  test("Should parse CRLF output", () => {
+    const stderr =
+      "warning: unused label\r\n  ┌─ C:\\notes\\beta.typ:10:5\r\n  │\r\n";
+    assert.deepStrictEqual(TypstRunner.parseDiagnostics(stderr), [
+      {
+        severity: "warning",
+        message: "unused label",
+        file: "C:\\notes\\beta.typ",
+        line: 10,
+        column: 5,
+      },
+    ]);
+  });
+});
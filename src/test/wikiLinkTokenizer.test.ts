@@ -0,0 +1,81 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { WikiLinkTokenizer } from "../utils/wikiLinkTokenizer";
+
+suite("Wiki Link Tokenizer Test Suite", () => {
+  const tokenize = async (content: string) => {
+    const document = await vscode.workspace.openTextDocument({
+      language: "typst",
+      content,
+    });
+    return WikiLinkTokenizer.tokenize(document);
+  };
+
+  test("Should parse path, label and alias", async () => {
+    const links = await tokenize("See [[notes/other:euler|Euler]] here.");
+
+    assert.strictEqual(links.length, 1);
+    assert.strictEqual(links[0].filePath, "notes/other");
+    assert.strictEqual(links[0].label, "euler");
+    assert.strictEqual(links[0].alias, "Euler");
+    assert.strictEqual(links[0].labelRange?.start.character, 18);
+  });
+
+  test("Should parse nested heading anchors", async () => {
+    const links = await tokenize("[[guide#Setup: Linux#Step \\| 1|Steps]] [[#Local]]");
+
+    assert.strictEqual(links.length, 2);
+    assert.strictEqual(links[0].filePath, "guide");
+    assert.deepStrictEqual(links[0].headingPath, ["Setup: Linux", "Step | 1"]);
+    assert.strictEqual(links[0].alias, "Steps");
+    assert.strictEqual(links[1].filePath, "");
+    assert.deepStrictEqual(links[1].headingPath, ["Local"]);
+  });
+
+  test("Should parse embed links", async () => {
+    const links = await tokenize("![[guide#Setup]] \\![[plain]]");
+
+    assert.strictEqual(links.length, 2);
+    assert.strictEqual(links[0].embed, true);
+    assert.strictEqual(links[0].fullMatch, "![[guide#Setup]]");
+    assert.strictEqual(links[0].range.start.character, 0);
+    assert.strictEqual(links[1].embed, false);
+  });
+
+  test("Should skip links in raw, strings and comments", async () => {
+    const links = await tokenize(
+      [
+        "`[[raw]]`",
+        "```",
+        "[[raw-block]]",
+        "```",
+        '#let s = "[[string]]"',
+        "// [[line-comment]]",
+        "/* [[block-comment]] */",
+        "[[markup]]",
+      ].join("\n")
+    );
+
+    assert.deepStrictEqual(
+      links.map((link) => link.filePath),
+      ["markup"]
+    );
+  });
+
+  test("Should find links in content blocks", async () => {
+    const links = await tokenize('#meta(parent: [[other]]) #box[see [[doc1]]]');
+
+    assert.deepStrictEqual(
+      links.map((link) => link.filePath),
+      ["other", "doc1"]
+    );
+  });
+
+  test("Should report the context at an offset", () => {
+    const text = '#let s = "abc" // note';
+
+    assert.strictEqual(WikiLinkTokenizer.getContextAt(text, 11), "string");
+    assert.strictEqual(WikiLinkTokenizer.getContextAt(text, 20), "comment");
+    assert.strictEqual(WikiLinkTokenizer.getContextAt("text [[x", 8), "markup");
+  });
+});
@@ -0,0 +1,83 @@
+export interface TextBlock {
+  startLine: number;
+  endLine: number;
+  text: string;
+}
+
+// Matches a Typst label at the end of a line: "Some text <blk-3f9a>"
+const TRAILING_LABEL_REGEX = /\s*<([^<>\s]+)>\s*$/;
+
+export class BlockExtractor {
+  /**
+   * Finds the paragraph containing a line. Paragraphs are runs of non-blank
+   * lines; a heading line always forms a block of its own.
+   */
+  static findParagraph(lines: string[], lineIndex: number): TextBlock | null {
+    if (lineIndex < 0 || lineIndex >= lines.length) {
+      return null;
+    }
+    if (lines[lineIndex].trim() === "") {
+      return null;
+    }
+
+    let startLine = lineIndex;
+    let endLine = lineIndex;
+
+    if (!this.isHeading(lines[lineIndex])) {
+      while (startLine > 0 && this.continuesParagraph(lines[startLine - 1])) {
+        startLine--;
+      }
+      while (
+        endLine < lines.length - 1 &&
+        this.continuesParagraph(lines[endLine + 1])
+      ) {
+        endLine++;
+      }
+    }
+
+    return {
+      startLine,
+      endLine,
+      text: this.toPlainText(lines.slice(startLine, endLine + 1)),
+    };
+  }
+
+  /**
+   * Gets the label attached to the end of a line, if any
+   */
+  static getTrailingLabel(line: string): string | undefined {
+    return line.match(TRAILING_LABEL_REGEX)?.[1];
+  }
+
+  /**
+   * Generates a short block label that doesn't collide with existing labels
+   */
+  static generateBlockLabel(existingLabels: Set<string>): string {
+    let label: string;
+    do {
+      label = `blk-${Math.floor(Math.random() * 0x10000)
+        .toString(16)
+        .padStart(4, "0")}`;
+    } while (existingLabels.has(label));
+    return label;
+  }
+
+  private static isHeading(line: string): boolean {
+    return /^\s*=+\s/.test(line);
+  }
+
+  private static continuesParagraph(line: string): boolean {
+    return line.trim() !== "" && !this.isHeading(line);
+  }
+
+  /**
+   * Joins block lines into a single line of text without the trailing label
+   */
+  private static toPlainText(lines: string[]): string {
+    return lines
+      .map((line) => line.trim())
+      .join(" ")
+      .replace(TRAILING_LABEL_REGEX, "")
+      .trim();
+  }
+}
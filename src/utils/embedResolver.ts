@@ -0,0 +1,115 @@
+import * as vscode from "vscode";
+import { BlockExtractor } from "./blockExtractor";
+import { LabelSearcher } from "./labelSearcher";
+import { PathResolver } from "./pathResolver";
+import { WikiLinkMatch } from "./wikiLinkTokenizer";
+
+export interface ResolvedEmbed {
+  document: vscode.TextDocument;
+  range: vscode.Range;
+  content: string;
+}
+
+export class EmbedResolver {
+  /**
+   * Resolves the section an embed link points to: the whole file, a heading
+   * section, or the paragraph (or heading section) closed by a label
+   */
+  static async resolveEmbed(
+    sourceUri: vscode.Uri,
+    link: Pick<WikiLinkMatch, "filePath" | "label" | "headingPath">
+  ): Promise<ResolvedEmbed | null> {
+    const targetUri = PathResolver.resolveLinkTarget(sourceUri, link.filePath);
+    if (
+      !PathResolver.isTypstFile(targetUri) ||
+      !(await PathResolver.fileExists(targetUri))
+    ) {
+      return null;
+    }
+
+    const document = await vscode.workspace.openTextDocument(targetUri);
+    const range = await this.findEmbedRange(document, link);
+    if (!range) {
+      return null;
+    }
+
+    return { document, range, content: document.getText(range) };
+  }
+
+  private static async findEmbedRange(
+    document: vscode.TextDocument,
+    link: Pick<WikiLinkMatch, "label" | "headingPath">
+  ): Promise<vscode.Range | null> {
+    if (link.headingPath && link.headingPath.length > 0) {
+      const result = await LabelSearcher.findHeadingPath(
+        document,
+        link.headingPath
+      );
+      return result.position
+        ? this.getSectionRange(document, result.position.line)
+        : null;
+    }
+
+    if (link.label) {
+      const result = await LabelSearcher.findLabel(document, link.label);
+      return result.position
+        ? this.getSectionRange(document, result.position.line)
+        : null;
+    }
+
+    return new vscode.Range(
+      new vscode.Position(0, 0),
+      document.lineAt(document.lineCount - 1).range.end
+    );
+  }
+
+  /**
+   * Gets the section starting at a line: a heading extends until the next
+   * heading of the same or a higher level, any other line to its paragraph
+   */
+  static getSectionRange(
+    document: vscode.TextDocument,
+    line: number
+  ): vscode.Range | null {
+    const headings = LabelSearcher.extractHeadings(document);
+    const index = headings.findIndex(
+      (heading) => heading.position.line === line
+    );
+
+    let startLine: number;
+    let endLine: number;
+
+    if (index !== -1) {
+      const next = headings
+        .slice(index + 1)
+        .find((heading) => heading.level <= headings[index].level);
+      startLine = line;
+      endLine = next ? next.position.line - 1 : document.lineCount - 1;
+
+      // Don't carry the blank lines separating this section from the next
+      while (
+        endLine > startLine &&
+        document.lineAt(endLine).isEmptyOrWhitespace
+      ) {
+        endLine--;
+      }
+    } else {
+      const paragraph = BlockExtractor.findParagraph(
+        document.getText().split("\n"),
+        line
+      );
+      if (!paragraph) {
+        return null;
+      }
+      startLine = paragraph.startLine;
+      endLine = paragraph.endLine;
+    }
+
+    return new vscode.Range(
+      startLine,
+      0,
+      endLine,
+      document.lineAt(endLine).range.end.character
+    );
+  }
+}
@@ -0,0 +1,85 @@
+// Points for each matched character, and bonuses for where it matched
+const MATCH_SCORE = 1;
+const CONSECUTIVE_BONUS = 4;
+const WORD_START_BONUS = 3;
+// Bonuses for a query word found whole in the text, more at its start
+const SUBSTRING_BONUS = 8;
+const PREFIX_BONUS = 8;
+
+/**
+ * Scores how well a query fuzzily matches a text, e.g. a note title: every
+ * word of the query must appear in order (`vsp` matches "Vector Spaces"),
+ * and matches at word starts or in a run score higher
+ */
+export class FuzzyMatcher {
+  /**
+   * Gets the score of a text for a query, or undefined when a query word
+   * doesn't match. Higher is better; an empty query scores 0.
+   */
+  static score(query: string, text: string): number | undefined {
+    const target = this.normalize(text);
+    let total = 0;
+
+    for (const word of this.normalize(query).split(/\s+/)) {
+      if (word === "") {
+        continue;
+      }
+      const score = this.scoreWord(word, target);
+      if (score === undefined) {
+        return undefined;
+      }
+      total += score;
+    }
+    return total;
+  }
+
+  /**
+   * Scores one query word, matching each of its characters at the first
+   * word start or run continuation found, and else at the next occurrence
+   */
+  private static scoreWord(word: string, target: string): number | undefined {
+    let score = 0;
+    let pos = 0;
+    let previous = -2;
+
+    for (const char of word) {
+      let index = -1;
+      for (let candidate = target.indexOf(char, pos); candidate !== -1; ) {
+        if (candidate === previous + 1 || this.isWordStart(target, candidate)) {
+          index = candidate;
+          break;
+        }
+        if (index === -1) {
+          index = candidate;
+        }
+        candidate = target.indexOf(char, candidate + 1);
+      }
+      if (index === -1) {
+        return undefined;
+      }
+
+      score += MATCH_SCORE;
+      if (index === previous + 1) {
+        score += CONSECUTIVE_BONUS;
+      } else if (this.isWordStart(target, index)) {
+        score += WORD_START_BONUS;
+      }
+      previous = index;
+      pos = index + char.length;
+    }
+
+    const substring = target.indexOf(word);
+    if (substring !== -1) {
+      score += SUBSTRING_BONUS + (substring === 0 ? PREFIX_BONUS : 0);
+    }
+    return score;
+  }
+
+  private static isWordStart(target: string, index: number): boolean {
+    return index === 0 || /[\s\-_./()[\]]/.test(target[index - 1]);
+  }
+
+  private static normalize(text: string): string {
+    return text.normalize("NFC").toLowerCase();
+  }
+}
@@ -0,0 +1,36 @@
+import * as vscode from "vscode";
+import { SettingsManager } from "../settings";
+
+export class InterwikiResolver {
+  /**
+   * Resolves an interwiki link such as [[gh:owner/repo]] to its external URL,
+   * using the `[interwiki]` URL templates of the document's folder
+   */
+  static resolve(
+    documentUri: vscode.Uri,
+    link: { filePath: string; label?: string }
+  ): vscode.Uri | null {
+    const prefixes = this.getPrefixes(documentUri);
+    if (!Object.hasOwn(prefixes, link.filePath) || !link.label) {
+      return null;
+    }
+    const template = prefixes[link.filePath];
+
+    return vscode.Uri.parse(template.replace("{}", encodeURI(link.label.trim())));
+  }
+
+  /**
+   * Checks if a link path is a configured interwiki prefix
+   */
+  static isInterwikiPrefix(documentUri: vscode.Uri, filePath: string): boolean {
+    return Object.hasOwn(this.getPrefixes(documentUri), filePath);
+  }
+
+  /**
+   * Gets the configured interwiki prefixes and their URL templates
+   */
+  static getPrefixes(documentUri: vscode.Uri): Record<string, string> {
+    return SettingsManager.getInstance().getSettingsOrDefaults(documentUri)
+      .interwiki;
+  }
+}
@@ -6,6 +6,12 @@ export interface LabelSearchResult {
   line?: string;
 }
 
+export interface HeadingOutlineEntry {
+  text: string;
+  level: number;
+  position: { line: number; character: number };
+}
+
 export class LabelSearcher {
   /**
    * Searches for a label in the target document
@@ -145,6 +151,148 @@ export class LabelSearcher {
     return { found: false };
   }
 
+  /**
+   * Extracts the heading outline of a document in source order
+   */
+  static extractHeadings(document: vscode.TextDocument): HeadingOutlineEntry[] {
+    const headings: HeadingOutlineEntry[] = [];
+    const lines = document.getText().split("\n");
+
+    lines.forEach((line, lineIndex) => {
+      const match = line.match(/^(\s*(=+)\s+)(.+)$/);
+      if (match) {
+        headings.push({
+          text: match[3].trim(),
+          level: match[2].length,
+          position: { line: lineIndex, character: match[1].length },
+        });
+      }
+    });
+
+    return headings;
+  }
+
+  /**
+   * Strips a trailing Typst label from heading text ("Intro <intro>" => "Intro")
+   */
+  static normalizeHeadingText(text: string): string {
+    return text.replace(/\s*<[^<>\s]+>\s*$/, "").trim();
+  }
+
+  /**
+   * Resolves a heading anchor path such as ["Parent", "Child"] against an outline.
+   * Each segment must be nested somewhere below the previous one.
+   */
+  static matchHeadingPath<T extends { text: string; level: number }>(
+    headings: T[],
+    headingPath: string[]
+  ): T | undefined {
+    const index = this.matchHeadingIndex(headings, headingPath);
+    return index === -1 ? undefined : headings[index];
+  }
+
+  /**
+   * Lists the headings that can follow an anchor path, i.e. every heading
+   * nested below the heading `parentPath` resolves to (or all headings)
+   */
+  static getHeadingCandidates<T extends { text: string; level: number }>(
+    headings: T[],
+    parentPath: string[]
+  ): T[] {
+    if (parentPath.length === 0) {
+      return headings;
+    }
+
+    const parentIndex = this.matchHeadingIndex(headings, parentPath);
+    if (parentIndex === -1) {
+      return [];
+    }
+
+    return headings.slice(
+      parentIndex + 1,
+      this.findSectionEnd(headings, parentIndex)
+    );
+  }
+
+  /**
+   * Searches for a heading anchor path in the target document
+   */
+  static async findHeadingPath(
+    document: vscode.TextDocument,
+    headingPath: string[]
+  ): Promise<LabelSearchResult> {
+    const heading = this.matchHeadingPath(
+      this.extractHeadings(document),
+      headingPath
+    );
+
+    if (!heading) {
+      return { found: false };
+    }
+
+    return {
+      found: true,
+      position: new vscode.Position(
+        heading.position.line,
+        heading.position.character
+      ),
+      line: document.lineAt(heading.position.line).text,
+    };
+  }
+
+  /**
+   * Navigates to a heading anchor path in the editor
+   */
+  static async navigateToHeadingPath(
+    document: vscode.TextDocument,
+    headingPath: string[]
+  ): Promise<boolean> {
+    const result = await this.findHeadingPath(document, headingPath);
+    return this.revealResult(document, result);
+  }
+
+  private static matchHeadingIndex<T extends { text: string; level: number }>(
+    headings: T[],
+    headingPath: string[]
+  ): number {
+    const search = (start: number, end: number, depth: number): number => {
+      const segment = headingPath[depth].toLowerCase();
+
+      for (let i = start; i < end; i++) {
+        if (this.normalizeHeadingText(headings[i].text).toLowerCase() !== segment) {
+          continue;
+        }
+        if (depth === headingPath.length - 1) {
+          return i;
+        }
+
+        const found = search(i + 1, this.findSectionEnd(headings, i), depth + 1);
+        if (found !== -1) {
+          return found;
+        }
+      }
+
+      return -1;
+    };
+
+    return headingPath.length === 0 ? -1 : search(0, headings.length, 0);
+  }
+
+  /**
+   * Finds the index of the first heading after `index` that closes its section
+   */
+  private static findSectionEnd<T extends { level: number }>(
+    headings: T[],
+    index: number
+  ): number {
+    for (let i = index + 1; i < headings.length; i++) {
+      if (headings[i].level <= headings[index].level) {
+        return i;
+      }
+    }
+    return headings.length;
+  }
+
   /**
    * Navigates to a label position in the editor
    */
@@ -153,7 +301,16 @@ export class LabelSearcher {
     label: string
   ): Promise<boolean> {
     const result = await this.findLabel(document, label);
+    return this.revealResult(document, result);
+  }
 
+  /**
+   * Moves the cursor to a search result, if it was found
+   */
+  private static async revealResult(
+    document: vscode.TextDocument,
+    result: LabelSearchResult
+  ): Promise<boolean> {
     if (result.found && result.position) {
       const editor = await vscode.window.showTextDocument(document);
       editor.selection = new vscode.Selection(result.position, result.position);
@@ -1,7 +1,9 @@
 import * as vscode from "vscode";
 import * as path from "path";
 import { LinkScanner } from "./linkScanner";
+import { LabelSearcher } from "./labelSearcher";
 import { PathResolver } from "./pathResolver";
+import { WikiLinkTokenizer } from "./wikiLinkTokenizer";
 import { LabelSymbolProvider } from "../labelSymbolProvider";
 
 export interface LabelUpdateEdit {
@@ -28,9 +30,8 @@ export class LabelUpdater {
     newLabel: string
   ): Promise<LabelUpdateEdit[]> {
     const edits: LabelUpdateEdit[] = [];
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
     
-    if (!workspaceFolder) {
+    if (!vscode.workspace.workspaceFolders?.length) {
       return edits;
     }
 
@@ -63,18 +64,39 @@ export class LabelUpdater {
     const links = await LinkScanner.scanDocument(document);
 
     for (const link of links) {
-      if (!link.label) {
+      if (!link.label && !link.headingPath) {
         continue; // Skip links without labels
       }
 
       // Check if this link points to the source document
       const targetUri = this.resolveLinkTarget(document.uri, link.filePath);
-      if (targetUri.fsPath !== sourceUri.fsPath) {
+      if (!PathResolver.pathsEqual(targetUri.fsPath, sourceUri.fsPath, document.uri)) {
         continue; // Skip links to other documents
       }
 
+      // Heading anchors are updated segment by segment
+      if (link.headingPath) {
+        const oldHeading = LabelSearcher.normalizeHeadingText(oldLabel).toLowerCase();
+        const newHeadingPath = link.headingPath.map((segment) =>
+          segment.toLowerCase() === oldHeading
+            ? LabelSearcher.normalizeHeadingText(newLabel)
+            : segment
+        );
+
+        if (newHeadingPath.some((segment, i) => segment !== link.headingPath![i])) {
+          edits.push({
+            uri: document.uri,
+            range: link.headingRange!,
+            newText: WikiLinkTokenizer.formatHeadingPath(newHeadingPath).substring(1),
+            oldLabel,
+            newLabel
+          });
+        }
+        continue;
+      }
+
       // Check if the label matches the old label
-      if (link.label.trim() === oldLabel) {
+      if (link.label?.trim() === oldLabel) {
         // Create the edit
         const newLinkText = this.createUpdatedLinkText(link, newLabel);
         const range = link.range;
@@ -96,17 +118,16 @@ export class LabelUpdater {
    * Resolves the target URI for a wiki link
    */
   private resolveLinkTarget(sourceUri: vscode.Uri, linkPath: string): vscode.Uri {
-    const filePathWithExt = PathResolver.ensureTypstExtension(linkPath);
-    return PathResolver.resolveFilePath(sourceUri, filePathWithExt);
+    return PathResolver.resolveLinkTarget(sourceUri, linkPath);
   }
 
   /**
    * Creates updated link text with the new label
    */
   private createUpdatedLinkText(link: any, newLabel: string): string {
-    const { filePath, alias } = link;
+    const { filePath, alias, embed } = link;
     
-    let newText = `[[${filePath}:${newLabel}`;
+    let newText = `${embed ? "!" : ""}[[${filePath}:${newLabel}`;
     
     if (alias) {
       newText += `|${alias}`;
@@ -211,9 +232,8 @@ export class LabelUpdater {
    */
   async getAllReferencedLabels(): Promise<Set<string>> {
     const referencedLabels = new Set<string>();
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
     
-    if (!workspaceFolder) {
+    if (!vscode.workspace.workspaceFolders?.length) {
       return referencedLabels;
     }
 
@@ -1,16 +1,7 @@
 import * as vscode from "vscode";
 import * as path from "path";
 import { PathResolver } from "./pathResolver";
-import { WIKI_LINK_REGEX } from "../wikiLinkProvider";
-
-export interface WikiLinkMatch {
-  filePath: string;
-  label?: string;
-  alias?: string;
-  range: vscode.Range;
-  fullMatch: string;
-  filePathRange: vscode.Range;
-}
+import { WikiLinkMatch, WikiLinkTokenizer } from "./wikiLinkTokenizer";
 
 export interface FileWithLinks {
   uri: vscode.Uri;
@@ -18,62 +9,18 @@ export interface FileWithLinks {
 }
 
 export class LinkScanner {
-  // Use the exported regex from wikiLinkProvider
-
   /**
    * Scans a document for all wiki links
    */
   static async scanDocument(document: vscode.TextDocument): Promise<WikiLinkMatch[]> {
-    const links: WikiLinkMatch[] = [];
-    const text = document.getText();
-
-    let match;
-    WIKI_LINK_REGEX.lastIndex = 0;
-
-    while ((match = WIKI_LINK_REGEX.exec(text)) !== null) {
-      const fullMatch = match[0];
-      const filePath = match[1].trim();
-      const label = match[2] ? match[2].trim() : undefined;
-      const alias = match[3] ? match[3].trim() : undefined;
-
-      const fullMatchStart = match.index;
-      const fullMatchEnd = match.index + fullMatch.length;
-
-      // Calculate file path range within the full match
-      const filePathStart = fullMatchStart + 2; // Skip "[["
-      const filePathEnd = label 
-        ? filePathStart + match[1].length 
-        : fullMatchEnd - 2; // Skip "]]"
-
-      const filePathRange = new vscode.Range(
-        document.positionAt(filePathStart),
-        document.positionAt(filePathEnd)
-      );
-
-      const range = new vscode.Range(
-        document.positionAt(fullMatchStart),
-        document.positionAt(fullMatchEnd)
-      );
-
-      links.push({
-        filePath,
-        label,
-        alias,
-        range,
-        fullMatch,
-        filePathRange,
-      });
-    }
-
-    return links;
+    return WikiLinkTokenizer.tokenize(document);
   }
 
   /**
    * Scans all .typ files in the workspace for wiki links
    */
   static async scanWorkspace(): Promise<FileWithLinks[]> {
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-    if (!workspaceFolder) {
+    if (!vscode.workspace.workspaceFolders?.length) {
       return [];
     }
 
@@ -100,13 +47,13 @@ export class LinkScanner {
    * Finds all files that link to a specific target file
    */
   static async findFilesLinkingTo(targetUri: vscode.Uri): Promise<FileWithLinks[]> {
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-    if (!workspaceFolder) {
+    if (!vscode.workspace.workspaceFolders?.length) {
       return [];
     }
 
-    const targetRelativePath = path.relative(workspaceFolder.uri.fsPath, targetUri.fsPath);
-    const targetPathWithoutExt = targetRelativePath.replace(/\.typ$/, "");
+    // Compare absolute paths so links across workspace folders are found too,
+    // under the path equivalence policy (case, Unicode form, separators)
+    const targetPathWithoutExt = targetUri.fsPath.replace(/\.typ$/, "");
 
     const allFilesWithLinks = await this.scanWorkspace();
     const linkingFiles: FileWithLinks[] = [];
@@ -114,10 +61,13 @@ export class LinkScanner {
     for (const fileWithLinks of allFilesWithLinks) {
       const relevantLinks = fileWithLinks.links.filter(link => {
         const resolvedPath = this.resolveLinkPath(fileWithLinks.uri, link.filePath);
-        const resolvedRelativePath = path.relative(workspaceFolder.uri.fsPath, resolvedPath);
-        const resolvedPathWithoutExt = resolvedRelativePath.replace(/\.typ$/, "");
+        const resolvedPathWithoutExt = resolvedPath.replace(/\.typ$/, "");
         
-        return resolvedPathWithoutExt === targetPathWithoutExt;
+        return PathResolver.pathsEqual(
+          resolvedPathWithoutExt,
+          targetPathWithoutExt,
+          fileWithLinks.uri
+        );
       });
 
       if (relevantLinks.length > 0) {
@@ -135,8 +85,7 @@ export class LinkScanner {
    * Resolves a wiki link path to an absolute path
    */
   private static resolveLinkPath(sourceUri: vscode.Uri, linkPath: string): string {
-    const filePathWithExt = PathResolver.ensureTypstExtension(linkPath);
-    const targetUri = PathResolver.resolveFilePath(sourceUri, filePathWithExt);
+    const targetUri = PathResolver.resolveLinkTarget(sourceUri, linkPath);
     return targetUri.fsPath;
   }
 
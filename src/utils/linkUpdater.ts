@@ -1,6 +1,8 @@
 import * as vscode from "vscode";
 import * as path from "path";
-import { LinkScanner, WikiLinkMatch, FileWithLinks } from "./linkScanner";
+import { LinkScanner, FileWithLinks } from "./linkScanner";
+import { PathResolver } from "./pathResolver";
+import { WikiLinkTokenizer } from "./wikiLinkTokenizer";
 
 export interface LinkUpdateResult {
   fileUri: vscode.Uri;
@@ -73,13 +75,20 @@ export class LinkUpdater {
 
     // Build the new path based on the rename operation
     const newPath = this.calculateNewLinkPath(fileWithLinks.uri, renameOperation);
+    const newRootRelativePath = PathResolver.getRootRelativeLinkPath(renameOperation.newUri);
+    const newCrossFolderPath = PathResolver.getCrossFolderLinkPath(renameOperation.newUri);
 
     for (const link of sortedLinks) {
-      if (this.shouldUpdateLink(link.filePath, renameOperation.oldPath)) {
+      if (this.shouldUpdateLink(fileWithLinks.uri, link.filePath, renameOperation)) {
         const oldLinkText = LinkUpdater.buildLinkText(link);
         const newLinkText = LinkUpdater.buildLinkText({
           ...link,
-          filePath: newPath
+          // Keep root-relative and cross-folder links in their form
+          filePath: PathResolver.isRootRelative(link.filePath)
+            ? newRootRelativePath
+            : PathResolver.parseCrossFolderPath(link.filePath) && newCrossFolderPath
+              ? newCrossFolderPath
+              : newPath
         });
 
         // Replace the link in the text
@@ -121,10 +130,24 @@ export class LinkUpdater {
   /**
    * Determines if a link should be updated based on the rename operation
    */
-  private static shouldUpdateLink(linkPath: string, oldTargetPath: string): boolean {
+  private static shouldUpdateLink(
+    sourceUri: vscode.Uri,
+    linkPath: string,
+    renameOperation: RenameOperation
+  ): boolean {
+    // Root-relative links start at the repository root, which may differ from the
+    // workspace folder, and cross-folder links at another workspace folder
+    if (PathResolver.isRootRelative(linkPath) || PathResolver.parseCrossFolderPath(linkPath)) {
+      return PathResolver.pathsEqual(
+        PathResolver.resolveLinkTarget(sourceUri, linkPath).fsPath,
+        renameOperation.oldUri.fsPath,
+        sourceUri
+      );
+    }
+
     // Normalize paths for comparison
-    const normalizedLinkPath = this.normalizePath(linkPath);
-    const normalizedOldPath = this.normalizePath(oldTargetPath);
+    const normalizedLinkPath = PathResolver.normalizeForComparison(this.normalizePath(linkPath), sourceUri);
+    const normalizedOldPath = PathResolver.normalizeForComparison(this.normalizePath(renameOperation.oldPath), sourceUri);
     
     return normalizedLinkPath === normalizedOldPath || 
            normalizedLinkPath === normalizedOldPath + ".typ" ||
@@ -162,11 +185,15 @@ export class LinkUpdater {
   private static buildLinkText(link: {
     filePath: string;
     label?: string;
+    headingPath?: string[];
     alias?: string;
+    embed?: boolean;
   }): string {
-    let linkText = `[[${link.filePath}`;
+    let linkText = `${link.embed ? "!" : ""}[[${link.filePath}`;
     
-    if (link.label) {
+    if (link.headingPath) {
+      linkText += WikiLinkTokenizer.formatHeadingPath(link.headingPath);
+    } else if (link.label) {
       linkText += `:${link.label}`;
     }
     
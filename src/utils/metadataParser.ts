@@ -0,0 +1,374 @@
+import { TypstMetadata } from "../indexing/metadataExtractor";
+import { WikiLinkTokenizer } from "./wikiLinkTokenizer";
+
+export interface ParsedMetadata {
+  value: TypstMetadata;
+  // False when some values aren't literals (variables, expressions, markup)
+  // and were left out, so only typst can produce the full metadata
+  complete: boolean;
+}
+
+export interface MetadataCall {
+  name: "metadata" | "meta";
+  // Offset just after the opening parenthesis
+  argumentsStart: number;
+}
+
+// Matches the start of `#metadata(...)` or the project's `#meta(...)` helper
+const METADATA_CALL_REGEX = /#(metadata|meta)\s*\(/g;
+
+// Sticky patterns, matched at the parser's position
+const WORD_REGEX = /[^\s,:()[\]{}]+/y;
+const KEY_REGEX = /([\p{L}_][\p{L}\p{N}_-]*)\s*:(?!:)/uy;
+const UNICODE_ESCAPE_REGEX = /\{([0-9a-fA-F]+)\}/y;
+
+// Returned for values that aren't literals
+const NOT_LITERAL = Symbol("not literal");
+type Literal = string | number | boolean | null | Literal[] | LiteralDict;
+interface LiteralDict {
+  [key: string]: Literal;
+}
+
+export class MetadataParser {
+  /**
+   * Parses the literal metadata of a document without running typst:
+   * `#metadata((key: value, ...))` or `#meta(key: value, ...)`. Strings,
+   * numbers, booleans, none, arrays and nested dictionaries are understood;
+   * `[...]` lists of literals are read as arrays, as in `alias: ["a", "b"]`.
+   * Returns null when the document has no metadata call.
+   */
+  static parse(content: string): ParsedMetadata | null {
+    const [call] = this.findCalls(content);
+    if (!call) {
+      return null;
+    }
+
+    const parser = new LiteralParser(content, call.argumentsStart);
+    try {
+      return call.name === "metadata"
+        ? parser.parseMetadataArgument()
+        : parser.parseNamedArguments();
+    } catch {
+      // Unbalanced or truncated source, e.g. while the call is being typed
+      return { value: {}, complete: false };
+    }
+  }
+
+  /**
+   * Finds the metadata calls of a document, skipping text that only looks
+   * like one in comments, strings and raw text
+   */
+  static findCalls(content: string): MetadataCall[] {
+    const calls: MetadataCall[] = [];
+    for (const match of content.matchAll(METADATA_CALL_REGEX)) {
+      const context = WikiLinkTokenizer.getContextAt(content, match.index);
+      if (context === "markup" || context === "code") {
+        calls.push({
+          name: match[1] as MetadataCall["name"],
+          argumentsStart: match.index + match[0].length,
+        });
+      }
+    }
+    return calls;
+  }
+}
+
+/**
+ * Recursive descent parser over the arguments of a metadata call, starting
+ * after its opening parenthesis
+ */
+class LiteralParser {
+  private complete = true;
+
+  constructor(private source: string, private pos: number) {}
+
+  parseMetadataArgument(): ParsedMetadata {
+    const value = this.parseValue();
+    this.skipToClose(")");
+
+    if (value === NOT_LITERAL) {
+      return { value: {}, complete: false };
+    }
+    if (!this.isDict(value)) {
+      // `typst query --field value` returns whatever was passed
+      return { value: { value }, complete: this.complete };
+    }
+    return { value, complete: this.complete };
+  }
+
+  parseNamedArguments(): ParsedMetadata {
+    const value: LiteralDict = {};
+    this.parseItems(")", (key, item) => {
+      if (key === undefined) {
+        // Positional arguments have no key to store them under
+        this.complete = false;
+      } else if (item !== NOT_LITERAL) {
+        value[key] = item;
+      }
+    });
+    return { value, complete: this.complete };
+  }
+
+  private parseValue(): Literal | typeof NOT_LITERAL {
+    this.skipTrivia();
+    const char = this.source[this.pos];
+
+    if (char === '"') {
+      return this.parseString();
+    }
+    if (char === "(") {
+      this.pos++;
+      return this.parseCollection(")");
+    }
+    if (char === "[") {
+      return this.parseBracket();
+    }
+
+    const word = this.matchAt(WORD_REGEX)?.[0];
+    if (word !== undefined) {
+      if (/^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(word)) {
+        this.pos += word.length;
+        return Number(word);
+      }
+      if (word === "true" || word === "false" || word === "none") {
+        this.pos += word.length;
+        return word === "none" ? null : word === "true";
+      }
+    }
+
+    this.skipValue();
+    this.complete = false;
+    return NOT_LITERAL;
+  }
+
+  /**
+   * Parses `(...)` after its opening parenthesis: `()` and `(a, b)` are
+   * arrays, `(:)` and `(key: value)` dictionaries
+   */
+  private parseCollection(close: string): Literal | typeof NOT_LITERAL {
+    this.skipTrivia();
+    if (this.source.startsWith(":", this.pos)) {
+      this.pos++;
+      this.skipToClose(close);
+      return {};
+    }
+
+    const array: Literal[] = [];
+    const dict: LiteralDict = {};
+    let isDict = false;
+    let hasItems = false;
+    let literal = true;
+
+    this.parseItems(close, (key, item) => {
+      if (hasItems && isDict !== (key !== undefined)) {
+        literal = false; // Mixed keys and positional items
+      }
+      hasItems = true;
+      isDict = key !== undefined;
+
+      if (item === NOT_LITERAL) {
+        literal = false;
+      } else if (key !== undefined) {
+        dict[key] = item;
+      } else {
+        array.push(item);
+      }
+    });
+
+    if (!literal) {
+      this.complete = false;
+      return NOT_LITERAL;
+    }
+    return isDict ? dict : array;
+  }
+
+  /**
+   * Parses `[...]`: a list of literals is read as an array, plain text as a
+   * string, anything with markup isn't a literal
+   */
+  private parseBracket(): Literal | typeof NOT_LITERAL {
+    const start = this.pos;
+    this.pos++;
+    this.skipToClose("]");
+    const body = this.source.slice(start + 1, this.pos - 1);
+
+    // Nested brackets are markup, e.g. the wiki link in `[[other]]`
+    if (!body.includes("[")) {
+      const items = new LiteralParser(body + "]", 0);
+      try {
+        const array = items.parseCollection("]");
+        if (Array.isArray(array) && items.complete) {
+          return array;
+        }
+      } catch {
+        // Not a list of literals
+      }
+    }
+
+    if (!/[#[\]*_$<>@`\\=]/.test(body)) {
+      return body.trim();
+    }
+    this.complete = false;
+    return NOT_LITERAL;
+  }
+
+  /**
+   * Parses comma-separated `value` or `key: value` items up to the closing
+   * delimiter, which is consumed
+   */
+  private parseItems(
+    close: string,
+    onItem: (key: string | undefined, item: Literal | typeof NOT_LITERAL) => void
+  ): void {
+    while (true) {
+      this.skipTrivia();
+      if (this.pos >= this.source.length) {
+        throw new Error("Unexpected end of metadata");
+      }
+      if (this.source[this.pos] === close) {
+        this.pos++;
+        return;
+      }
+
+      const key = this.parseKey();
+      let item = this.parseValue();
+
+      this.skipTrivia();
+      if (this.source[this.pos] !== "," && this.source[this.pos] !== close) {
+        // Something follows the value, e.g. `1 + 2`: not a literal
+        this.skipValue();
+        this.complete = false;
+        item = NOT_LITERAL;
+      }
+
+      onItem(key, item);
+      if (this.source[this.pos] === ",") {
+        this.pos++;
+      }
+    }
+  }
+
+  /**
+   * Parses `key:` or `"key":` before a value, if present
+   */
+  private parseKey(): string | undefined {
+    const identifier = this.matchAt(KEY_REGEX);
+    if (identifier) {
+      this.pos += identifier[0].length;
+      return identifier[1];
+    }
+
+    if (this.source[this.pos] === '"') {
+      const start = this.pos;
+      const key = this.parseString();
+      this.skipTrivia();
+      if (this.source[this.pos] === ":") {
+        this.pos++;
+        return key;
+      }
+      this.pos = start;
+    }
+    return undefined;
+  }
+
+  private parseString(): string {
+    let result = "";
+    this.pos++;
+
+    while (this.pos < this.source.length) {
+      const char = this.source[this.pos++];
+      if (char === '"') {
+        return result;
+      }
+      if (char !== "\\") {
+        result += char;
+        continue;
+      }
+
+      const escaped = this.source[this.pos++];
+      if (escaped === "u") {
+        const unicode = this.matchAt(UNICODE_ESCAPE_REGEX);
+        if (unicode) {
+          result += String.fromCodePoint(parseInt(unicode[1], 16));
+          this.pos += unicode[0].length;
+          continue;
+        }
+      }
+      result +=
+        { n: "\n", r: "\r", t: "\t" }[escaped as "n" | "r" | "t"] ?? escaped;
+    }
+
+    throw new Error("Unterminated string");
+  }
+
+  /**
+   * Skips a value that isn't a literal, up to the next top-level comma or
+   * closing delimiter
+   */
+  private skipValue(): void {
+    let depth = 0;
+
+    while (this.pos < this.source.length) {
+      const char = this.source[this.pos];
+      if (char === '"') {
+        this.parseString();
+        continue;
+      }
+      if ("([{".includes(char)) {
+        depth++;
+      } else if (")]}".includes(char)) {
+        if (depth === 0) {
+          return;
+        }
+        depth--;
+      } else if (char === "," && depth === 0) {
+        return;
+      }
+      this.pos++;
+    }
+  }
+
+  /**
+   * Moves past the closing delimiter of the current call or collection
+   */
+  private skipToClose(close: string): void {
+    this.skipValue();
+    while (this.source[this.pos] === ",") {
+      this.pos++;
+      this.skipValue();
+    }
+    if (this.source[this.pos] !== close) {
+      throw new Error(`Expected "${close}"`);
+    }
+    this.pos++;
+  }
+
+  /**
+   * Skips whitespace and comments
+   */
+  private skipTrivia(): void {
+    while (this.pos < this.source.length) {
+      const rest = this.source.slice(this.pos, this.pos + 2);
+      if (/^\s/.test(rest)) {
+        this.pos++;
+      } else if (rest === "//") {
+        const end = this.source.indexOf("\n", this.pos);
+        this.pos = end === -1 ? this.source.length : end;
+      } else if (rest === "/*") {
+        const end = this.source.indexOf("*/", this.pos + 2);
+        this.pos = end === -1 ? this.source.length : end + 2;
+      } else {
+        return;
+      }
+    }
+  }
+
+  private matchAt(regex: RegExp): RegExpExecArray | null {
+    regex.lastIndex = this.pos;
+    return regex.exec(this.source);
+  }
+
+  private isDict(value: Literal): value is LiteralDict {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+  }
+}
@@ -1,15 +1,47 @@
 import * as path from "path";
 import * as vscode from "vscode";
+import { AliasIndex } from "../services/aliasIndex";
+import { DirectoryCache } from "../services/directoryCache";
+import { NoteNameIndex } from "../services/noteNameIndex";
+import { SettingsManager } from "../settings";
+
+// Matches cross-folder link paths in multi-root workspaces: "folder-name//path"
+const CROSS_FOLDER_PATH_REGEX = /^([^/\\]+)\/\/(.*)$/;
+// Suffix of the copies written by the embed export: "note.export.typ"
+const EMBED_EXPORT_SUFFIX = ".export.typ";
+
+export interface CrossFolderPath {
+  folderName: string;
+  path: string;
+}
 
 export class PathResolver {
   /**
-   * Resolves a file path relative to the current document
+   * Resolves a file path relative to the current document. Paths starting
+   * with "/" are resolved from the repository root, and "folder-name//path"
+   * from the workspace folder with that name.
    */
   static resolveFilePath(
     currentDocumentUri: vscode.Uri,
     targetPath: string
   ): vscode.Uri {
-    // If the path is already absolute, use it as-is
+    const crossFolderPath = this.parseCrossFolderPath(targetPath);
+    if (crossFolderPath) {
+      const folder = this.getWorkspaceFolderByName(crossFolderPath.folderName);
+      if (folder) {
+        return vscode.Uri.file(
+          path.join(folder.uri.fsPath, crossFolderPath.path)
+        );
+      }
+    }
+
+    if (this.isRootRelative(targetPath)) {
+      return vscode.Uri.file(
+        path.join(this.getRepositoryRoot(currentDocumentUri), targetPath)
+      );
+    }
+
+    // If the path is already absolute (e.g. C:\notes\x.typ), use it as-is
     if (path.isAbsolute(targetPath)) {
       return vscode.Uri.file(targetPath);
     }
@@ -24,17 +56,352 @@ export class PathResolver {
   }
 
   /**
-   * Ensures the file has a .typ extension if not specified
+   * Resolves the target of a wiki link path. An empty path (e.g. [[#Heading]])
+   * refers to the linking document itself. In "shortest" resolution mode a
+   * path that doesn't exist relative to the document is matched against the
+   * names of all indexed notes; failing that, against declared aliases.
+   */
+  static resolveLinkTarget(
+    currentDocumentUri: vscode.Uri,
+    linkPath: string
+  ): vscode.Uri {
+    if (linkPath === "") {
+      return currentDocumentUri;
+    }
+
+    const relativeUri = this.resolveRelativeTarget(currentDocumentUri, linkPath);
+
+    const candidates = this.getLinkCandidates(currentDocumentUri, linkPath);
+    if (candidates.length > 0) {
+      return candidates[0];
+    }
+
+    const aliasTargets = this.getAliasTargets(
+      currentDocumentUri,
+      linkPath,
+      candidates
+    );
+    return aliasTargets.length > 0 ? aliasTargets[0] : relativeUri;
+  }
+
+  /**
+   * Gets the notes declaring a link path as their alias, for links that don't
+   * resolve to a file otherwise. More than one entry is an alias conflict.
+   * Callers that already looked up the link candidates pass them along.
+   */
+  static getAliasTargets(
+    currentDocumentUri: vscode.Uri,
+    linkPath: string,
+    candidates = this.getLinkCandidates(currentDocumentUri, linkPath)
+  ): vscode.Uri[] {
+    if (
+      linkPath === "" ||
+      this.parseCrossFolderPath(linkPath) ||
+      candidates.length > 0
+    ) {
+      return [];
+    }
+
+    const relativeUri = this.resolveRelativeTarget(currentDocumentUri, linkPath);
+    if (DirectoryCache.getInstance().exists(relativeUri.fsPath)) {
+      return [];
+    }
+
+    return this.filterToFolderOf(
+      currentDocumentUri,
+      AliasIndex.getInstance()
+        .getFiles(linkPath)
+        .map((filePath) => vscode.Uri.file(filePath))
+    );
+  }
+
+  /**
+   * Gets the notes a link path matches by name in "shortest" resolution mode.
+   * Returns an empty list when the path resolves relative to the document or
+   * the mode is "relative"; more than one entry means the link is ambiguous.
+   * Only notes in the document's own workspace folder are considered.
    */
-  static ensureTypstExtension(filePath: string): string {
-    // Check if the file already has an extension
-    const hasExtension = path.extname(filePath) !== '';
-    if (!hasExtension) {
+  static getLinkCandidates(
+    currentDocumentUri: vscode.Uri,
+    linkPath: string
+  ): vscode.Uri[] {
+    if (
+      linkPath === "" ||
+      path.isAbsolute(linkPath) ||
+      this.parseCrossFolderPath(linkPath) ||
+      this.getResolutionMode(currentDocumentUri) !== "shortest"
+    ) {
+      return [];
+    }
+
+    const noteNameIndex = NoteNameIndex.getInstance();
+    const relativeUri = this.resolveRelativeTarget(currentDocumentUri, linkPath);
+    if (noteNameIndex.has(relativeUri.fsPath)) {
+      return [];
+    }
+
+    return this.filterToFolderOf(
+      currentDocumentUri,
+      noteNameIndex
+        .getCandidates(linkPath, this.isCaseSensitive(currentDocumentUri))
+        .map((filePath) => vscode.Uri.file(filePath))
+    );
+  }
+
+  /**
+   * Resolves a link path relative to the document (or from the repository
+   * root or another workspace folder) to the file on disk it is equivalent to
+   */
+  private static resolveRelativeTarget(
+    currentDocumentUri: vscode.Uri,
+    linkPath: string
+  ): vscode.Uri {
+    const resolvedUri = this.resolveFilePath(
+      currentDocumentUri,
+      this.ensureTypstExtension(linkPath, currentDocumentUri)
+    );
+    return vscode.Uri.file(
+      this.findEquivalentPath(resolvedUri.fsPath, currentDocumentUri)
+    );
+  }
+
+  /**
+   * Finds the file on disk that a path refers to under the path equivalence
+   * policy, e.g. "Notes/Café.typ" for "notes/café.typ". The path is returned
+   * unchanged when it exists as written or nothing on disk matches it.
+   */
+  private static findEquivalentPath(filePath: string, uri?: vscode.Uri): string {
+    const directoryCache = DirectoryCache.getInstance();
+    if (directoryCache.exists(filePath)) {
+      return filePath;
+    }
+
+    // Only the part below the workspace folder needs matching
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(
+      vscode.Uri.file(filePath)
+    );
+    let current = workspaceFolder
+      ? workspaceFolder.uri.fsPath
+      : path.parse(filePath).root;
+    const segments = path
+      .relative(current, filePath)
+      .split(/[/\\]/)
+      .filter((segment) => segment !== "");
+
+    for (const segment of segments) {
+      const exact = path.join(current, segment);
+      if (directoryCache.exists(exact)) {
+        current = exact;
+        continue;
+      }
+
+      const entries = directoryCache.list(current);
+      const match = entries?.find((entry) =>
+        this.pathsEqual(entry, segment, uri)
+      );
+      if (!match) {
+        return filePath;
+      }
+      current = path.join(current, match);
+    }
+
+    return current;
+  }
+
+  /**
+   * Normalizes a path for comparison: separators become "/", Unicode is
+   * composed (NFC) and case is folded unless `case-sensitive` is set
+   */
+  static normalizeForComparison(filePath: string, uri?: vscode.Uri): string {
+    const normalized = filePath.replace(/\\/g, "/").normalize("NFC");
+    return this.isCaseSensitive(uri) ? normalized : normalized.toLowerCase();
+  }
+
+  /**
+   * Checks if two paths refer to the same file under the path equivalence
+   * policy of a document's folder
+   */
+  static pathsEqual(a: string, b: string, uri?: vscode.Uri): boolean {
+    return (
+      this.normalizeForComparison(a, uri) === this.normalizeForComparison(b, uri)
+    );
+  }
+
+  /**
+   * Gets the `case-sensitive` wiki link setting for a document's folder
+   */
+  static isCaseSensitive(uri?: vscode.Uri): boolean {
+    return SettingsManager.getInstance().getSettingsOrDefaults(uri)[
+      "wiki-links"
+    ]["case-sensitive"];
+  }
+
+  /**
+   * Keeps the files in the same workspace folder as a document
+   */
+  static filterToFolderOf(
+    documentUri: vscode.Uri,
+    uris: vscode.Uri[]
+  ): vscode.Uri[] {
+    const currentFolder =
+      vscode.workspace.getWorkspaceFolder(documentUri)?.uri.toString();
+    return uris.filter(
+      (uri) =>
+        vscode.workspace.getWorkspaceFolder(uri)?.uri.toString() ===
+        currentFolder
+    );
+  }
+
+  /**
+   * Gets the configured wiki link resolution mode for a document's folder
+   */
+  static getResolutionMode(uri?: vscode.Uri): "relative" | "shortest" {
+    return SettingsManager.getInstance().getSettingsOrDefaults(uri)[
+      "wiki-links"
+    ]["resolution-mode"];
+  }
+
+  /**
+   * Parses a cross-folder link path ("folder-name//path")
+   */
+  static parseCrossFolderPath(linkPath: string): CrossFolderPath | null {
+    const match = linkPath.match(CROSS_FOLDER_PATH_REGEX);
+    return match ? { folderName: match[1], path: match[2] } : null;
+  }
+
+  /**
+   * Finds a workspace folder by its name
+   */
+  static getWorkspaceFolderByName(
+    name: string
+  ): vscode.WorkspaceFolder | undefined {
+    return vscode.workspace.workspaceFolders?.find((folder) =>
+      this.pathsEqual(folder.name, name, folder.uri)
+    );
+  }
+
+  /**
+   * Gets the cross-folder link path of a file, e.g. "research//notes/meeting"
+   */
+  static getCrossFolderLinkPath(uri: vscode.Uri): string | null {
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    if (!folder) {
+      return null;
+    }
+
+    const relativePath = path
+      .relative(folder.uri.fsPath, uri.fsPath)
+      .replace(/\\/g, "/")
+      .replace(/\.typ$/, "");
+    return `${folder.name}//${relativePath}`;
+  }
+
+  /**
+   * Checks if a workspace folder holds a typst-oxide repository, i.e.
+   * contains a `.typst-oxide` directory
+   */
+  static isRepositoryFolder(folder: vscode.WorkspaceFolder): boolean {
+    return DirectoryCache.getInstance().exists(
+      path.join(folder.uri.fsPath, ".typst-oxide")
+    );
+  }
+
+  /**
+   * Lists the repository folders: the workspace folders that hold a
+   * repository or, when none does, the first workspace folder. Settings,
+   * indexes and repository roots all follow this rule.
+   */
+  static getRepositoryFolders(): vscode.WorkspaceFolder[] {
+    const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+    const repositoryFolders = workspaceFolders.filter((folder) =>
+      this.isRepositoryFolder(folder)
+    );
+    return repositoryFolders.length > 0
+      ? repositoryFolders
+      : workspaceFolders.slice(0, 1);
+  }
+
+  /**
+   * Checks if a link path is relative to the repository root ("/notes/x")
+   */
+  static isRootRelative(linkPath: string): boolean {
+    return linkPath.startsWith("/");
+  }
+
+  /**
+   * Finds the repository root of a file: its workspace folder, which holds
+   * `.typst-oxide` when it is a repository folder. Files outside the
+   * workspace use their own folder.
+   */
+  static getRepositoryRoot(uri: vscode.Uri): string {
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+    return workspaceFolder
+      ? workspaceFolder.uri.fsPath
+      : path.dirname(uri.fsPath);
+  }
+
+  /**
+   * Gets the root-relative link path of a file, e.g. "/notes/meeting"
+   */
+  static getRootRelativeLinkPath(uri: vscode.Uri): string {
+    const relativePath = path
+      .relative(this.getRepositoryRoot(uri), uri.fsPath)
+      .replace(/\\/g, "/")
+      .replace(/\.typ$/, "");
+    return `/${relativePath}`;
+  }
+
+  /**
+   * Ensures the file has a .typ extension if not specified. Paths ending in
+   * a configured file extension (e.g. "figure.png") are kept as they are.
+   */
+  static ensureTypstExtension(filePath: string, uri?: vscode.Uri): string {
+    const extension = path.extname(filePath).toLowerCase();
+    if (extension === "" || !this.isLinkableExtension(extension, uri)) {
       return filePath + ".typ";
     }
     return filePath;
   }
 
+  /**
+   * Checks if files with an extension can be linked: notes always can, other
+   * files per the `file-extensions` setting of a document's folder
+   */
+  static isLinkableExtension(extension: string, uri?: vscode.Uri): boolean {
+    if (extension.toLowerCase() === ".typ") {
+      return true;
+    }
+    const extensions =
+      SettingsManager.getInstance().getSettingsOrDefaults(uri)["wiki-links"][
+        "file-extensions"
+      ];
+    return extensions.some(
+      (configured) => configured.toLowerCase() === extension.toLowerCase()
+    );
+  }
+
+  /**
+   * Gets the file an embed export of a note is written to
+   */
+  static getEmbedExportUri(uri: vscode.Uri): vscode.Uri {
+    return vscode.Uri.file(uri.fsPath.replace(/(\.typ)?$/, EMBED_EXPORT_SUFFIX));
+  }
+
+  /**
+   * Checks if a file is an embed export, a generated copy of a note that
+   * isn't indexed
+   */
+  static isEmbedExport(filePath: string): boolean {
+    return filePath.toLowerCase().endsWith(EMBED_EXPORT_SUFFIX);
+  }
+
+  /**
+   * Checks if a file is a Typst note rather than an asset
+   */
+  static isTypstFile(uri: vscode.Uri): boolean {
+    return path.extname(uri.fsPath).toLowerCase() === ".typ";
+  }
+
   /**
    * Checks if a file exists
    */
@@ -48,12 +415,16 @@ export class PathResolver {
   }
 
   /**
-   * Gets the workspace relative path for display purposes
+   * Gets the workspace relative path for display purposes. In multi-root
+   * workspaces the path is prefixed with the folder name.
    */
   static getWorkspaceRelativePath(uri: vscode.Uri): string {
     const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
     if (workspaceFolder) {
-      return path.relative(workspaceFolder.uri.fsPath, uri.fsPath);
+      const relativePath = path.relative(workspaceFolder.uri.fsPath, uri.fsPath);
+      return (vscode.workspace.workspaceFolders?.length ?? 0) > 1
+        ? path.join(workspaceFolder.name, relativePath)
+        : relativePath;
     }
     return uri.fsPath;
   }
@@ -0,0 +1,182 @@
+import { TypstMetadata } from "../indexing/metadataExtractor";
+import { MetadataParser } from "./metadataParser";
+import { WikiLinkTokenizer } from "./wikiLinkTokenizer";
+
+export interface TagOccurrence {
+  // Normalized tag, e.g. "project/alpha"
+  tag: string;
+  // Offsets of the tag as written, without quotes, padding or leading "#"
+  start: number;
+  end: number;
+  // True for `#tag("x")` markers, false for metadata values
+  inline: boolean;
+}
+
+// Matches an inline tag marker: #tag("project/alpha")
+const INLINE_TAG_REGEX = /#tag\(\s*"((?:[^"\\\n]|\\.)*)"\s*\)/g;
+// Matches the metadata keys holding tags: "tags: " or "keywords: "
+const TAG_KEY_REGEX = /(?<![\p{L}\p{N}_-])(?:tags|keywords)\s*:\s*/uy;
+
+/**
+ * Finds tags in Typst source: `#tag("x")` markers in markup or code, and the
+ * string literals of the `tags` and `keywords` metadata fields. Tags form a
+ * hierarchy with "/" (`project/alpha` is a child of `project`) and compare
+ * ignoring case and a leading "#".
+ */
+export class TagScanner {
+  /**
+   * Normalizes a tag as written: "#Project/Alpha " becomes "project/alpha"
+   */
+  static normalize(tag: string): string {
+    return tag
+      .trim()
+      .replace(/^#/, "")
+      .split("/")
+      .map((segment) => segment.trim())
+      .filter((segment) => segment !== "")
+      .join("/")
+      .normalize("NFC")
+      .toLowerCase();
+  }
+
+  /**
+   * Gets the tags of metadata values: `tags` and `keywords`, each a string or
+   * an array of strings
+   */
+  static fromMetadata(metadata: TypstMetadata): string[] {
+    // Metadata is whatever typst returned, so the declared types may not hold
+    const values: unknown[] = [metadata?.tags, metadata?.keywords];
+    return values
+      .flatMap((value): unknown[] => (Array.isArray(value) ? value : [value]))
+      .filter((value): value is string => typeof value === "string")
+      .map((value) => this.normalize(value))
+      .filter((tag) => tag !== "");
+  }
+
+  /**
+   * Checks if a tag is another tag or one of its descendants
+   */
+  static isSameOrChild(tag: string, parent: string): boolean {
+    return tag === parent || tag.startsWith(`${parent}/`);
+  }
+
+  /**
+   * Finds every tag written in a document
+   */
+  static findTags(text: string): TagOccurrence[] {
+    const occurrences: TagOccurrence[] = [];
+
+    for (const match of text.matchAll(INLINE_TAG_REGEX)) {
+      const context = WikiLinkTokenizer.getContextAt(text, match.index);
+      if (context === "markup" || context === "code") {
+        const start = match.index + match[0].indexOf('"') + 1;
+        this.pushOccurrence(occurrences, text, start, start + match[1].length, true);
+      }
+    }
+
+    for (const call of MetadataParser.findCalls(text)) {
+      this.findMetadataTags(text, call.argumentsStart, occurrences);
+    }
+
+    return occurrences.sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * Collects the string literals of `tags:` and `keywords:` values in the
+   * arguments of a metadata call, which start at `start`
+   */
+  private static findMetadataTags(
+    text: string,
+    start: number,
+    occurrences: TagOccurrence[]
+  ): void {
+    let depth = 0;
+    // Depth of the tags value being read, if any
+    let valueDepth: number | undefined;
+    let pos = start;
+
+    while (pos < text.length) {
+      const char = text[pos];
+
+      if (char === '"') {
+        const end = this.findStringEnd(text, pos);
+        if (valueDepth !== undefined && depth <= valueDepth + 1) {
+          this.pushOccurrence(occurrences, text, pos + 1, end - 1, false);
+          if (depth === valueDepth) {
+            valueDepth = undefined;
+          }
+        }
+        pos = end;
+        continue;
+      }
+      if (char === "/" && text[pos + 1] === "/") {
+        pos = text.indexOf("\n", pos);
+        pos = pos === -1 ? text.length : pos;
+        continue;
+      }
+      if (char === "/" && text[pos + 1] === "*") {
+        pos = text.indexOf("*/", pos + 2);
+        pos = pos === -1 ? text.length : pos + 2;
+        continue;
+      }
+
+      if (char === "(" || char === "[" || char === "{") {
+        depth++;
+      } else if (char === ")" || char === "]" || char === "}") {
+        if (depth === 0) {
+          return;
+        }
+        depth--;
+        if (valueDepth !== undefined && depth === valueDepth) {
+          valueDepth = undefined;
+        }
+      } else if (char === "," && valueDepth === depth) {
+        valueDepth = undefined;
+      } else if (valueDepth === undefined) {
+        TAG_KEY_REGEX.lastIndex = pos;
+        const key = TAG_KEY_REGEX.exec(text);
+        if (key) {
+          valueDepth = depth;
+          pos += key[0].length;
+          continue;
+        }
+      }
+      pos++;
+    }
+  }
+
+  /**
+   * Gets the offset after the closing quote of a string starting at `start`
+   */
+  private static findStringEnd(text: string, start: number): number {
+    let pos = start + 1;
+    while (pos < text.length && text[pos] !== '"' && text[pos] !== "\n") {
+      pos += text[pos] === "\\" ? 2 : 1;
+    }
+    return Math.min(pos + 1, text.length);
+  }
+
+  private static pushOccurrence(
+    occurrences: TagOccurrence[],
+    text: string,
+    start: number,
+    end: number,
+    inline: boolean
+  ): void {
+    const raw = text.slice(start, end);
+    const tag = this.normalize(raw);
+    if (tag === "") {
+      return;
+    }
+
+    // Point at the tag itself, e.g. `project` in `" #project "`
+    const leading = raw.length - raw.trimStart().length;
+    const hash = raw.trimStart().startsWith("#") ? 1 : 0;
+    occurrences.push({
+      tag,
+      start: start + leading + hash,
+      end: end - (raw.length - raw.trimEnd().length),
+      inline,
+    });
+  }
+}
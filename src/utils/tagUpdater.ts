@@ -0,0 +1,86 @@
+import * as vscode from "vscode";
+import { DatabaseService } from "../indexing/dbService";
+import { TagScanner } from "./tagScanner";
+
+export interface TagRenameResult {
+  edit: vscode.WorkspaceEdit;
+  occurrences: number;
+  files: number;
+  // Notes indexed with the tag where it isn't written as a literal, e.g.
+  // metadata computed by code
+  skipped: string[];
+}
+
+export class TagUpdater {
+  /**
+   * Builds the edit renaming a tag and its descendants in every note:
+   * `project` → `work` also turns `project/alpha` into `work/alpha`
+   */
+  static async createRenameEdit(
+    oldTag: string,
+    newTag: string
+  ): Promise<TagRenameResult> {
+    const tag = TagScanner.normalize(oldTag);
+    const depth = tag.split("/").length;
+    const result: TagRenameResult = {
+      edit: new vscode.WorkspaceEdit(),
+      occurrences: 0,
+      files: 0,
+      skipped: [],
+    };
+
+    for (const file of await DatabaseService.getInstance().getFilesByTag(tag)) {
+      // Dirty documents are edited as they are in the editor
+      const document = await vscode.workspace.openTextDocument(
+        vscode.Uri.file(file.filePath)
+      );
+      const text = document.getText();
+      const occurrences = TagScanner.findTags(text).filter((occurrence) =>
+        TagScanner.isSameOrChild(occurrence.tag, tag)
+      );
+      if (occurrences.length === 0) {
+        result.skipped.push(file.filePath);
+        continue;
+      }
+
+      for (const occurrence of occurrences) {
+        // Keep the descendant segments as written
+        const rest = text
+          .slice(occurrence.start, occurrence.end)
+          .split("/")
+          .map((segment) => segment.trim())
+          .filter((segment) => segment !== "")
+          .slice(depth);
+        result.edit.replace(
+          document.uri,
+          new vscode.Range(
+            document.positionAt(occurrence.start),
+            document.positionAt(occurrence.end)
+          ),
+          [newTag, ...rest].join("/")
+        );
+      }
+      result.occurrences += occurrences.length;
+      result.files++;
+    }
+
+    return result;
+  }
+
+  /**
+   * Checks a new tag name, returning why it is invalid
+   */
+  static validateTagName(name: string): string | undefined {
+    const tag = name.trim().replace(/^#/, "");
+    if (tag === "") {
+      return "Tag name cannot be empty";
+    }
+    if (/["\\\n]/.test(tag)) {
+      return 'Tag name cannot contain quotes, backslashes or line breaks';
+    }
+    if (tag.split("/").some((segment) => segment.trim() === "")) {
+      return "Tag name cannot have empty segments";
+    }
+    return undefined;
+  }
+}
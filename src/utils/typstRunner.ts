@@ -0,0 +1,138 @@
+import * as cp from "child_process";
+import * as vscode from "vscode";
+import { SettingsManager } from "../settings";
+import { PathResolver } from "./pathResolver";
+
+export interface TypstDiagnostic {
+  severity: "error" | "warning";
+  message: string;
+  file?: string;
+  line?: number;
+  column?: number;
+}
+
+export interface TypstRunResult {
+  stdout: string;
+  diagnostics: TypstDiagnostic[];
+  // Why the command didn't run or didn't succeed; undefined on success
+  error?: string;
+}
+
+export interface TypstRunOptions {
+  // Document the command is about: picks the settings and the `--root`
+  documentUri: vscode.Uri;
+  // Overrides the `query-timeout` setting, in milliseconds
+  timeout?: number;
+}
+
+// Matches the header of a typst diagnostic: "error: unknown variable: foo"
+const DIAGNOSTIC_REGEX = /^(error|warning): (.*)$/;
+// Matches the location line below it: "┌─ notes/foo.typ:3:2"
+const LOCATION_REGEX = /^\s*┌─ (.+):(\d+):(\d+)\s*$/;
+
+export class TypstRunner {
+  /**
+   * Runs the typst CLI with arguments passed straight to the process (no
+   * shell), rooted at the document's repository. Nothing runs in untrusted
+   * workspaces, as the binary and inputs come from the workspace settings.
+   */
+  static async run(
+    args: string[],
+    options: TypstRunOptions
+  ): Promise<TypstRunResult> {
+    if (!vscode.workspace.isTrusted) {
+      return {
+        stdout: "",
+        diagnostics: [],
+        error: "typst is not run in untrusted workspaces",
+      };
+    }
+
+    const settings = SettingsManager.getInstance().getSettingsOrDefaults(
+      options.documentUri
+    ).typst;
+    const root = PathResolver.getRepositoryRoot(options.documentUri);
+    const timeout = options.timeout ?? settings["query-timeout"];
+    const inputArgs = Object.entries(settings.inputs).flatMap(
+      ([key, value]) => ["--input", `${key}=${value}`]
+    );
+
+    return new Promise((resolve) => {
+      cp.execFile(
+        settings.binary,
+        [...args, "--root", root, ...inputArgs],
+        { cwd: root, timeout, maxBuffer: 16 * 1024 * 1024 },
+        (error, stdout, stderr) => {
+          resolve({
+            stdout,
+            diagnostics: this.parseDiagnostics(stderr),
+            error: error
+              ? this.describeError(error, settings.binary, timeout)
+              : undefined,
+          });
+        }
+      );
+    });
+  }
+
+  /**
+   * Queries a file for the values of the elements matching a selector, e.g.
+   * `typst query file.typ metadata --field value --one`
+   */
+  static async query(
+    fileUri: vscode.Uri,
+    selector: string,
+    options: { field?: string; one?: boolean; timeout?: number } = {}
+  ): Promise<TypstRunResult> {
+    const args = ["query", fileUri.fsPath, selector];
+    if (options.field) {
+      args.push("--field", options.field);
+    }
+    if (options.one) {
+      args.push("--one");
+    }
+
+    return this.run(args, { documentUri: fileUri, timeout: options.timeout });
+  }
+
+  /**
+   * Parses the errors and warnings typst prints to stderr, with their
+   * location when one follows the message
+   */
+  static parseDiagnostics(stderr: string): TypstDiagnostic[] {
+    const diagnostics: TypstDiagnostic[] = [];
+    const lines = stderr.split(/\r?\n/);
+
+    lines.forEach((line, index) => {
+      const match = line.match(DIAGNOSTIC_REGEX);
+      if (!match) {
+        return;
+      }
+
+      const location = lines[index + 1]?.match(LOCATION_REGEX);
+      diagnostics.push({
+        severity: match[1] as TypstDiagnostic["severity"],
+        message: match[2].trim(),
+        file: location?.[1],
+        line: location ? parseInt(location[2], 10) : undefined,
+        column: location ? parseInt(location[3], 10) : undefined,
+      });
+    });
+
+    return diagnostics;
+  }
+
+  private static describeError(
+    error: cp.ExecFileException,
+    binary: string,
+    timeout: number
+  ): string {
+    if (error.code === "ENOENT") {
+      return `typst binary not found: ${binary}`;
+    }
+    if (error.killed) {
+      return `typst timed out after ${timeout} ms`;
+    }
+    return error.message;
+  }
+}
@@ -0,0 +1,594 @@
+import * as vscode from "vscode";
+
+export interface WikiLinkMatch {
+  filePath: string;
+  label?: string;
+  headingPath?: string[];
+  alias?: string;
+  embed: boolean;
+  range: vscode.Range;
+  fullMatch: string;
+  filePathRange: vscode.Range;
+  labelRange?: vscode.Range;
+  headingRange?: vscode.Range;
+  aliasRange?: vscode.Range;
+}
+
+/**
+ * A wiki link that is still being typed (no closing "]]" before the cursor)
+ */
+export interface OpenWikiLink {
+  filePath: string;
+  label?: string;
+  headingPath?: string[];
+  alias?: string;
+  slot: "path" | "label" | "heading" | "alias";
+  start: vscode.Position;
+}
+
+export type TypstContext =
+  | "markup"
+  | "code"
+  | "math"
+  | "string"
+  | "raw"
+  | "comment";
+
+type TextSource = Pick<vscode.TextDocument, "getText" | "positionAt">;
+
+// Regex to match wiki links: [[path/to/file]], [[path/to/file:<label>]] or [[path/to/file#<Heading>#<Sub>]],
+// each optionally followed by |<alias>. The path may be omitted for same-file heading anchors: [[#Heading]].
+// Heading anchors may contain ":"; "#", "|" and "]" are escaped with a backslash.
+// A leading "!" (e.g. ![[file:label]]) turns the link into an embed of the target section.
+export const WIKI_LINK_REGEX = /\[\[([^|\]#:]+?|(?=#))(?:#((?:\\.|[^\\|\]])+)|:([^|\]]+?))?(?:\|([^\]]+))?\]\]/g;
+
+// Keywords that turn an embedded `#` expression into a statement running to the end of the line
+const STATEMENT_KEYWORDS = new Set([
+  "let",
+  "set",
+  "show",
+  "import",
+  "include",
+  "if",
+  "for",
+  "while",
+  "return",
+  "context",
+]);
+
+type Frame =
+  | { mode: "markup"; close?: "]"; depth: number }
+  | { mode: "code"; close: ")" | "}" | "\n" }
+  | { mode: "expr" }
+  | { mode: "math" };
+
+interface SkippedSpan {
+  context: TypstContext;
+  start: number;
+  end: number;
+}
+
+/**
+ * Minimal Typst lexer that tracks markup/code/math modes and skips strings,
+ * raw blocks and comments, so wiki links are only recognised in markup
+ */
+class TypstScanner {
+  private pos = 0;
+  private readonly stack: Frame[] = [{ mode: "markup", depth: 0 }];
+  private readonly linkRegex = new RegExp(WIKI_LINK_REGEX.source, "dy");
+
+  constructor(private readonly text: string) {}
+
+  /**
+   * Scans up to `limit`, reporting every wiki link found in markup and, to
+   * `onMarkup`, the spans of markup text. Returns the context the scanner is
+   * in at `limit`.
+   */
+  run(
+    limit: number,
+    onLink?: (match: RegExpExecArray) => void,
+    onMarkup?: (start: number, end: number) => void
+  ): TypstContext {
+    while (this.pos < limit && this.pos < this.text.length) {
+      const start = this.pos;
+      const mode = this.current().mode;
+      const skipped = this.step(onLink);
+      if (skipped && limit >= skipped.start && limit < skipped.end) {
+        return skipped.context;
+      }
+      if (onMarkup && !skipped && mode === "markup" && this.pos > start) {
+        onMarkup(start, this.pos);
+      }
+    }
+
+    const frame = this.current();
+    return frame.mode === "expr" ? "code" : frame.mode;
+  }
+
+  private current(): Frame {
+    return this.stack[this.stack.length - 1];
+  }
+
+  private pop(): void {
+    if (this.stack.length > 1) {
+      this.stack.pop();
+    }
+  }
+
+  private step(
+    onLink?: (match: RegExpExecArray) => void
+  ): SkippedSpan | undefined {
+    const text = this.text;
+    const ch = text[this.pos];
+    const next = text[this.pos + 1];
+    const frame = this.current();
+
+    // Comments are recognised everywhere except right after "scheme:" in markup (URLs)
+    if (ch === "/" && next === "*") {
+      return this.skipBlockComment();
+    }
+    if (
+      ch === "/" &&
+      next === "/" &&
+      !(frame.mode === "markup" && text[this.pos - 1] === ":")
+    ) {
+      return this.skipLineComment();
+    }
+    if (ch === "`" && frame.mode !== "math") {
+      return this.skipRaw();
+    }
+
+    switch (frame.mode) {
+      case "markup":
+        return this.stepMarkup(frame, onLink);
+      case "code":
+        return this.stepCode(frame, onLink);
+      case "expr":
+        return this.stepExpr();
+      case "math":
+        return this.stepMath();
+    }
+  }
+
+  private stepMarkup(
+    frame: Extract<Frame, { mode: "markup" }>,
+    onLink?: (match: RegExpExecArray) => void
+  ): SkippedSpan | undefined {
+    const text = this.text;
+    const ch = text[this.pos];
+
+    if (ch === "\\") {
+      this.pos += 2;
+      return undefined;
+    }
+
+    if (this.matchLink(onLink)) {
+      return undefined;
+    }
+
+    if (ch === "[") {
+      frame.depth++;
+    } else if (ch === "]") {
+      if (frame.depth > 0) {
+        frame.depth--;
+      } else if (frame.close === "]") {
+        this.pop();
+      }
+    } else if (ch === "$") {
+      this.stack.push({ mode: "math" });
+    } else if (ch === "#" && /[\p{L}_({["]/u.test(text[this.pos + 1] ?? "")) {
+      this.stack.push({ mode: "expr" });
+    }
+
+    this.pos++;
+    return undefined;
+  }
+
+  /**
+   * Consumes a wiki link starting at the current position, if there is one
+   */
+  private matchLink(onLink?: (match: RegExpExecArray) => void): boolean {
+    if (this.text[this.pos] !== "[" || this.text[this.pos + 1] !== "[") {
+      return false;
+    }
+
+    this.linkRegex.lastIndex = this.pos;
+    const match = this.linkRegex.exec(this.text);
+    if (!match) {
+      return false;
+    }
+
+    onLink?.(match);
+    this.pos += match[0].length;
+    return true;
+  }
+
+  private stepExpr(): SkippedSpan | undefined {
+    const text = this.text;
+    const ch = text[this.pos];
+
+    const identifier = /[\p{L}_][\p{L}\p{N}_-]*/uy;
+    identifier.lastIndex = this.pos;
+    const identMatch = identifier.exec(text);
+    if (identMatch && text[this.pos - 1] === "#") {
+      this.pos += identMatch[0].length;
+      if (STATEMENT_KEYWORDS.has(identMatch[0])) {
+        // Statements extend to the end of the line, so re-enter as line code
+        this.stack.pop();
+        this.stack.push({ mode: "code", close: "\n" });
+      }
+      return undefined;
+    }
+
+    if (ch === "." && /[\p{L}_]/u.test(text[this.pos + 1] ?? "")) {
+      identifier.lastIndex = this.pos + 1;
+      const member = identifier.exec(text);
+      this.pos += 1 + (member ? member[0].length : 0);
+      return undefined;
+    }
+
+    if (ch === "(") {
+      this.stack.push({ mode: "code", close: ")" });
+    } else if (ch === "{") {
+      this.stack.push({ mode: "code", close: "}" });
+    } else if (ch === "[") {
+      this.stack.push({ mode: "markup", close: "]", depth: 0 });
+    } else if (ch === '"' && text[this.pos - 1] === "#") {
+      return this.skipString();
+    } else {
+      // The embedded expression ended; re-scan this character in the outer mode
+      this.stack.pop();
+      return undefined;
+    }
+
+    this.pos++;
+    return undefined;
+  }
+
+  private stepCode(
+    frame: Extract<Frame, { mode: "code" }>,
+    onLink?: (match: RegExpExecArray) => void
+  ): SkippedSpan | undefined {
+    const ch = this.text[this.pos];
+
+    if (ch === '"') {
+      return this.skipString();
+    }
+
+    // A content block holding a bracketed path, e.g. `parent: [[other]]`, is a link in markup
+    if (this.matchLink(onLink)) {
+      return undefined;
+    }
+
+    if (ch === frame.close) {
+      this.pop();
+    } else if (ch === "(") {
+      this.stack.push({ mode: "code", close: ")" });
+    } else if (ch === "{") {
+      this.stack.push({ mode: "code", close: "}" });
+    } else if (ch === "[") {
+      this.stack.push({ mode: "markup", close: "]", depth: 0 });
+    } else if (ch === "$") {
+      this.stack.push({ mode: "math" });
+    }
+
+    this.pos++;
+    return undefined;
+  }
+
+  private stepMath(): SkippedSpan | undefined {
+    const ch = this.text[this.pos];
+
+    if (ch === "\\") {
+      this.pos += 2;
+      return undefined;
+    }
+    if (ch === '"') {
+      return this.skipString();
+    }
+    if (ch === "$") {
+      this.pop();
+    }
+
+    this.pos++;
+    return undefined;
+  }
+
+  private skipString(): SkippedSpan {
+    const start = this.pos;
+    let i = start + 1;
+    while (i < this.text.length && this.text[i] !== '"') {
+      i += this.text[i] === "\\" ? 2 : 1;
+    }
+    const closed = i < this.text.length;
+    this.pos = closed ? i + 1 : this.text.length;
+    return { context: "string", start: start + 1, end: closed ? this.pos : Infinity };
+  }
+
+  private skipLineComment(): SkippedSpan {
+    const start = this.pos;
+    const newline = this.text.indexOf("\n", start);
+    this.pos = newline === -1 ? this.text.length : newline;
+    return { context: "comment", start: start + 1, end: this.pos + 1 };
+  }
+
+  private skipBlockComment(): SkippedSpan {
+    const start = this.pos;
+    let depth = 0;
+    let i = start;
+    while (i < this.text.length) {
+      if (this.text.startsWith("/*", i)) {
+        depth++;
+        i += 2;
+      } else if (this.text.startsWith("*/", i)) {
+        depth--;
+        i += 2;
+        if (depth === 0) {
+          break;
+        }
+      } else {
+        i++;
+      }
+    }
+    this.pos = i;
+    return {
+      context: "comment",
+      start: start + 1,
+      end: depth === 0 ? this.pos : Infinity,
+    };
+  }
+
+  private skipRaw(): SkippedSpan {
+    const start = this.pos;
+    let ticks = 0;
+    while (this.text[start + ticks] === "`") {
+      ticks++;
+    }
+
+    if (ticks === 2) {
+      // "``" is an empty raw span
+      this.pos = start + 2;
+      return { context: "raw", start: start + 1, end: this.pos };
+    }
+
+    const fence = "`".repeat(ticks);
+    const close = this.text.indexOf(fence, start + ticks);
+    this.pos = close === -1 ? this.text.length : close + ticks;
+    return {
+      context: "raw",
+      start: start + 1,
+      end: close === -1 ? Infinity : this.pos,
+    };
+  }
+}
+
+export class WikiLinkTokenizer {
+  /**
+   * Finds every wiki link in the markup of a Typst document
+   */
+  static tokenize(document: TextSource): WikiLinkMatch[] {
+    const text = document.getText();
+    const links: WikiLinkMatch[] = [];
+
+    new TypstScanner(text).run(text.length, (match) => {
+      links.push(this.toWikiLinkMatch(document, match));
+    });
+
+    return links;
+  }
+
+  /**
+   * Finds every wiki link in the markup of a text that isn't open as a
+   * document, e.g. a file read from disk
+   */
+  static tokenizeText(text: string): WikiLinkMatch[] {
+    const lineStarts = [0];
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === "\n") {
+        lineStarts.push(i + 1);
+      }
+    }
+
+    const positionAt = (offset: number) => {
+      let low = 0;
+      let high = lineStarts.length - 1;
+      while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        if (lineStarts[mid] <= offset) {
+          low = mid;
+        } else {
+          high = mid - 1;
+        }
+      }
+      return new vscode.Position(low, offset - lineStarts[low]);
+    };
+
+    return this.tokenize({ getText: () => text, positionAt });
+  }
+
+  /**
+   * Gets the markup text of a document (what ends up as prose) with code,
+   * math, strings, raw text and comments blanked out. Offsets and line
+   * breaks are kept, so positions in the result are positions in the text.
+   */
+  static extractMarkupText(text: string): string {
+    const blank = (span: string) => span.replace(/[^\n]/g, " ");
+    const parts: string[] = [];
+    let last = 0;
+
+    new TypstScanner(text).run(text.length, undefined, (start, end) => {
+      if (start > last) {
+        parts.push(blank(text.slice(last, start)));
+      }
+      parts.push(text.slice(start, end));
+      last = end;
+    });
+
+    parts.push(blank(text.slice(last)));
+    return parts.join("");
+  }
+
+  /**
+   * Determines the Typst syntactic context at an offset
+   */
+  static getContextAt(text: string, offset: number): TypstContext {
+    return new TypstScanner(text).run(offset);
+  }
+
+  /**
+   * Finds the unterminated wiki link the cursor is currently typing in, if any
+   */
+  static findOpenLink(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): OpenWikiLink | undefined {
+    const linePrefix = document
+      .lineAt(position)
+      .text.substring(0, position.character);
+
+    const openMatch = linePrefix.match(/\[\[([^\]]*)$/);
+    if (!openMatch || openMatch.index === undefined) {
+      return undefined;
+    }
+
+    const context = this.getContextAt(
+      document.getText(),
+      document.offsetAt(position)
+    );
+    if (context !== "markup") {
+      return undefined;
+    }
+
+    const content = openMatch[1];
+    const start = new vscode.Position(position.line, openMatch.index);
+    const pathEnd = content.search(/[#:|]/);
+    const filePath = pathEnd === -1 ? content : content.substring(0, pathEnd);
+
+    if (pathEnd === -1) {
+      return { filePath, slot: "path", start };
+    }
+
+    const rest = content.substring(pathEnd + 1);
+    switch (content[pathEnd]) {
+      case "#": {
+        const pipeIndex = this.findUnescaped(rest, "|");
+        if (pipeIndex !== -1) {
+          return {
+            filePath,
+            headingPath: this.splitHeadingPath(rest.substring(0, pipeIndex)),
+            alias: rest.substring(pipeIndex + 1),
+            slot: "alias",
+            start,
+          };
+        }
+        return {
+          filePath,
+          headingPath: this.splitHeadingPath(rest, false),
+          slot: "heading",
+          start,
+        };
+      }
+      case ":": {
+        const pipeIndex = rest.indexOf("|");
+        if (pipeIndex !== -1) {
+          return {
+            filePath,
+            label: rest.substring(0, pipeIndex),
+            alias: rest.substring(pipeIndex + 1),
+            slot: "alias",
+            start,
+          };
+        }
+        return { filePath, label: rest, slot: "label", start };
+      }
+      default:
+        return { filePath, alias: rest, slot: "alias", start };
+    }
+  }
+
+  /**
+   * Formats heading segments as an escaped anchor, e.g. ["A", "B|C"] => "#A#B\|C"
+   */
+  static formatHeadingPath(headingPath: string[]): string {
+    return headingPath
+      .map((segment) => "#" + segment.replace(/[\\#|\]]/g, (ch) => "\\" + ch))
+      .join("");
+  }
+
+  /**
+   * Splits an anchor such as "Parent#Child" into unescaped heading segments
+   */
+  private static splitHeadingPath(anchor: string, trim = true): string[] {
+    const segments: string[] = [];
+    let current = "";
+
+    for (let i = 0; i < anchor.length; i++) {
+      const ch = anchor[i];
+      if (ch === "\\" && i + 1 < anchor.length) {
+        current += anchor[++i];
+      } else if (ch === "#") {
+        segments.push(current);
+        current = "";
+      } else {
+        current += ch;
+      }
+    }
+    segments.push(current);
+
+    return trim ? segments.map((segment) => segment.trim()) : segments;
+  }
+
+  /**
+   * Finds the first occurrence of a character that isn't escaped with a backslash
+   */
+  private static findUnescaped(text: string, char: string): number {
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === "\\") {
+        i++;
+      } else if (text[i] === char) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Converts a regex match into a WikiLinkMatch with ranges for each part
+   */
+  private static toWikiLinkMatch(
+    document: TextSource,
+    match: RegExpExecArray
+  ): WikiLinkMatch {
+    const indices = match.indices!;
+    const embed =
+      match.input[match.index - 1] === "!" &&
+      match.input[match.index - 2] !== "\\";
+    const linkStart = embed ? match.index - 1 : match.index;
+    const rangeOf = (start: number, end: number) =>
+      new vscode.Range(document.positionAt(start), document.positionAt(end));
+
+    // Ranges cover the trimmed text of each part
+    const partRange = (group: number) => {
+      const [start, end] = indices[group]!;
+      const raw = match[group];
+      const leading = raw.length - raw.trimStart().length;
+      const trailing = raw.length - raw.trimEnd().length;
+      return rangeOf(start + leading, end - trailing);
+    };
+
+    return {
+      filePath: match[1].trim(),
+      headingPath:
+        match[2] !== undefined ? this.splitHeadingPath(match[2]) : undefined,
+      label: match[3] !== undefined ? match[3].trim() : undefined,
+      alias: match[4] !== undefined ? match[4].trim() : undefined,
+      embed,
+      range: rangeOf(linkStart, match.index + match[0].length),
+      fullMatch: embed ? "!" + match[0] : match[0],
+      filePathRange: partRange(1),
+      headingRange: match[2] !== undefined ? partRange(2) : undefined,
+      labelRange: match[3] !== undefined ? partRange(3) : undefined,
+      aliasRange: match[4] !== undefined ? partRange(4) : undefined,
+    };
+  }
+}
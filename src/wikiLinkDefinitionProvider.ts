@@ -0,0 +1,42 @@
+import * as vscode from "vscode";
+import { EmbedResolver } from "./utils/embedResolver";
+import { WikiLinkTokenizer } from "./utils/wikiLinkTokenizer";
+
+export class WikiLinkDefinitionProvider implements vscode.DefinitionProvider {
+  /**
+   * Resolves a wiki link to the section it targets, so Peek Definition
+   * previews the embedded (or linked) text in place
+   */
+  async provideDefinition(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    token: vscode.CancellationToken
+  ): Promise<vscode.LocationLink[] | undefined> {
+    const link = WikiLinkTokenizer.tokenize(document).find((link) =>
+      link.range.contains(position)
+    );
+    if (!link) {
+      return undefined;
+    }
+
+    try {
+      const embed = await EmbedResolver.resolveEmbed(document.uri, link);
+      if (token.isCancellationRequested || !embed) {
+        return undefined;
+      }
+
+      return [
+        {
+          originSelectionRange: link.range,
+          targetUri: embed.document.uri,
+          targetRange: embed.range,
+          targetSelectionRange: embed.document.lineAt(embed.range.start.line)
+            .range,
+        },
+      ];
+    } catch (error) {
+      console.error("Error providing wiki link definition:", error);
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,101 @@
+import * as vscode from "vscode";
+import { DatabaseService } from "./indexing/dbService";
+import { SettingsManager } from "./settings";
+import { EmbedResolver } from "./utils/embedResolver";
+import { InterwikiResolver } from "./utils/interwikiResolver";
+import { PathResolver } from "./utils/pathResolver";
+import { WikiLinkMatch, WikiLinkTokenizer } from "./utils/wikiLinkTokenizer";
+
+export class WikiLinkHoverProvider implements vscode.HoverProvider {
+  /**
+   * Shows the embedded section of an embed link, or the text of the block
+   * a wiki link label points to
+   */
+  async provideHover(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    token: vscode.CancellationToken
+  ): Promise<vscode.Hover | undefined> {
+    const link = WikiLinkTokenizer.tokenize(document).find((link) =>
+      link.range.contains(position)
+    );
+    if (link?.embed) {
+      return this.provideEmbedHover(document, link, token);
+    }
+    if (
+      !link ||
+      !link.label ||
+      InterwikiResolver.isInterwikiPrefix(document.uri, link.filePath)
+    ) {
+      return undefined;
+    }
+
+    const targetUri = PathResolver.resolveLinkTarget(
+      document.uri,
+      link.filePath
+    );
+
+    try {
+      const labels = await DatabaseService.getInstance().getLabelsInFile(
+        targetUri.fsPath
+      );
+      const label = labels.find((label) => label.name === link.label);
+
+      if (token.isCancellationRequested || !label?.text) {
+        return undefined;
+      }
+
+      const markdownString = new vscode.MarkdownString();
+      markdownString.appendMarkdown(
+        `**${label.type === "block" ? "Block" : "Label"}:** \`${
+          label.name
+        }\` in \`${PathResolver.getWorkspaceRelativePath(targetUri)}\`\n\n`
+      );
+      markdownString.appendMarkdown("> ");
+      markdownString.appendText(label.text);
+
+      return new vscode.Hover(markdownString, link.range);
+    } catch (error) {
+      console.error("Error providing wiki link hover:", error);
+      return undefined;
+    }
+  }
+
+  private async provideEmbedHover(
+    document: vscode.TextDocument,
+    link: WikiLinkMatch,
+    token: vscode.CancellationToken
+  ): Promise<vscode.Hover | undefined> {
+    try {
+      const embed = await EmbedResolver.resolveEmbed(document.uri, link);
+      if (token.isCancellationRequested || !embed) {
+        return undefined;
+      }
+
+      const maxLines =
+        SettingsManager.getInstance().getSettingsOrDefaults().ui[
+          "preview-max-lines"
+        ];
+      const lines = embed.content.split("\n");
+      const preview = lines.slice(0, maxLines).join("\n");
+
+      const markdownString = new vscode.MarkdownString();
+      markdownString.appendMarkdown(
+        `**Embed:** \`${PathResolver.getWorkspaceRelativePath(
+          embed.document.uri
+        )}\`\n\n`
+      );
+      markdownString.appendCodeblock(preview, "typst");
+      if (lines.length > maxLines) {
+        markdownString.appendMarkdown(
+          `*… ${lines.length - maxLines} more lines*`
+        );
+      }
+
+      return new vscode.Hover(markdownString, link.range);
+    } catch (error) {
+      console.error("Error providing embed hover:", error);
+      return undefined;
+    }
+  }
+}
@@ -1,21 +1,10 @@
 import * as vscode from "vscode";
+import { InterwikiResolver } from "./utils/interwikiResolver";
 import { LabelSearcher } from "./utils/labelSearcher";
 import { PathResolver } from "./utils/pathResolver";
-
-export interface WikiLink {
-  filePath: string;
-  label: string;
-  alias: string;
-  range: vscode.Range;
-}
-
-// Regex to match wiki links: [[path/to/file]] or [[path/to/file:<label>]] or [[path/to/file:<label>|<alias>]]
-export const WIKI_LINK_REGEX = /\[\[([^|\]]+?)(?::([^|\]]+?))?(?:\|([^\]]+))?\]\]/g;
+import { WikiLinkTokenizer } from "./utils/wikiLinkTokenizer";
 
 export class WikiLinkProvider implements vscode.DocumentLinkProvider {
-  // Use the exported regex internally
-  private static readonly WIKI_LINK_REGEX = WIKI_LINK_REGEX;
-
   /**
    * Provides document links for wiki links in .typ files
    */
@@ -24,31 +13,25 @@ export class WikiLinkProvider implements vscode.DocumentLinkProvider {
     token: vscode.CancellationToken
   ): vscode.ProviderResult<vscode.DocumentLink[]> {
     const links: vscode.DocumentLink[] = [];
-    const text = document.getText();
-
-    let match;
-    WikiLinkProvider.WIKI_LINK_REGEX.lastIndex = 0; // Reset regex
 
-    while ((match = WikiLinkProvider.WIKI_LINK_REGEX.exec(text)) !== null) {
+    for (const wikiLink of WikiLinkTokenizer.tokenize(document)) {
       if (token.isCancellationRequested) {
         break;
       }
 
-      const filePath = match[1].trim();
-      const label = match[2] ? match[2].trim() : undefined;
-      const alias = match[3] ? match[3].trim() : undefined;
+      const { filePath, label, headingPath, alias, range } = wikiLink;
 
-      // Create range for the entire wiki link
-      const startPos = document.positionAt(match.index);
-      const endPos = document.positionAt(match.index + match[0].length);
-      const range = new vscode.Range(startPos, endPos);
+      // Interwiki links ([[gh:owner/repo]]) open their external URL
+      const externalUri = InterwikiResolver.resolve(document.uri, wikiLink);
+      if (externalUri) {
+        const externalLink = new vscode.DocumentLink(range, externalUri);
+        externalLink.tooltip = `Open ${externalUri.toString(true)}`;
+        links.push(externalLink);
+        continue;
+      }
 
       // Resolve the target file path
-      const filePathWithExt = PathResolver.ensureTypstExtension(filePath);
-      const targetUri = PathResolver.resolveFilePath(
-        document.uri,
-        filePathWithExt
-      );
+      const targetUri = PathResolver.resolveLinkTarget(document.uri, filePath);
 
       // Create a document link using a command URI to handle navigation
       // This ensures our custom handler is called instead of default file opening
@@ -57,20 +40,22 @@ export class WikiLinkProvider implements vscode.DocumentLinkProvider {
           JSON.stringify({
             uri: targetUri.toString(),
             label: label || "",
+            heading: headingPath,
           })
         )}`
       );
       const link = new vscode.DocumentLink(range, commandUri);
 
-      link.tooltip = label
-        ? `Navigate to "${label}" in ${PathResolver.getWorkspaceRelativePath(
+      const anchor = label || headingPath?.join(" › ");
+      link.tooltip = anchor
+        ? `Navigate to "${anchor}" in ${PathResolver.getWorkspaceRelativePath(
             targetUri
           )}`
         : `Navigate to ${PathResolver.getWorkspaceRelativePath(targetUri)}`;
       
       // Update the link text to show alias if provided
       if (alias) {
-        link.tooltip = `Navigate to "${label || PathResolver.getWorkspaceRelativePath(targetUri)}" (shown as "${alias}")`;
+        link.tooltip = `Navigate to "${anchor || PathResolver.getWorkspaceRelativePath(targetUri)}" (shown as "${alias}")`;
       }
 
       links.push(link);
@@ -78,42 +63,17 @@ export class WikiLinkProvider implements vscode.DocumentLinkProvider {
 
     return links;
   }
-
-  /**
-   * Parses wiki links from document text
-   */
-  static parseWikiLinks(document: vscode.TextDocument): WikiLink[] {
-    const links: WikiLink[] = [];
-    const text = document.getText();
-
-    let match;
-    WikiLinkProvider.WIKI_LINK_REGEX.lastIndex = 0;
-
-    while ((match = WikiLinkProvider.WIKI_LINK_REGEX.exec(text)) !== null) {
-      const filePath = match[1].trim();
-      const label = match[2] ? match[2].trim() : "";
-
-      const startPos = document.positionAt(match.index);
-      const endPos = document.positionAt(match.index + match[0].length);
-      const range = new vscode.Range(startPos, endPos);
-
-      links.push({
-        filePath,
-        label,
-        alias: match[3] ? match[3].trim() : "",
-        range,
-      });
-    }
-
-    return links;
-  }
 }
 
 export class WikiLinkHandler {
   /**
    * Handles wiki link navigation
    */
-  static async handleWikiLink(uri: vscode.Uri, label?: string): Promise<void> {
+  static async handleWikiLink(
+    uri: vscode.Uri,
+    label?: string,
+    headingPath?: string[]
+  ): Promise<void> {
     try {
       const filePath = uri.fsPath || uri.path;
       const targetLabel = label || uri.fragment;
@@ -127,6 +87,20 @@ export class WikiLinkHandler {
 
       // Check if file exists
       const fileExists = await PathResolver.fileExists(targetUri);
+
+      // Assets open in their default viewer (image preview, PDF viewer, ...)
+      // and are never created
+      if (!PathResolver.isTypstFile(targetUri)) {
+        if (fileExists) {
+          await vscode.commands.executeCommand("vscode.open", targetUri);
+        } else {
+          vscode.window.showWarningMessage(
+            `File not found: "${PathResolver.getWorkspaceRelativePath(targetUri)}"`
+          );
+        }
+        return;
+      }
+
       if (!fileExists) {
         const relativePath = PathResolver.getWorkspaceRelativePath(targetUri);
         vscode.window.showWarningMessage(
@@ -143,8 +117,26 @@ export class WikiLinkHandler {
       // Open the document
       const document = await vscode.workspace.openTextDocument(targetUri);
 
-      // Navigate to the label only if one is specified
-      if (targetLabel && targetLabel.trim() !== "") {
+      // Navigate to the heading anchor or label only if one is specified
+      if (headingPath && headingPath.length > 0) {
+        const success = await LabelSearcher.navigateToHeadingPath(
+          document,
+          headingPath
+        );
+
+        if (!success) {
+          const relativePath = PathResolver.getWorkspaceRelativePath(targetUri);
+          const headingText = headingPath.join(" › ");
+          await vscode.window.showTextDocument(document);
+          vscode.window.showWarningMessage(
+            `🔍 Heading "${headingText}" not found in "${relativePath}"`,
+            {
+              modal: false,
+              detail: `The heading "${headingText}" doesn't exist in the target file. The file has been opened instead.`,
+            }
+          );
+        }
+      } else if (targetLabel && targetLabel.trim() !== "") {
         const success = await LabelSearcher.navigateToLabel(
           document,
           targetLabel